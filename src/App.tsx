@@ -5,39 +5,64 @@ import { Equalizer } from './components/Equalizer'
 import { FullscreenHint } from './components/FullscreenHint'
 import { TouchControls } from './components/TouchControls'
 import { useKeyboard } from './hooks/useKeyboard'
+import { useMidiController } from './hooks/useMidiController'
 import { useStore } from './store/useStore'
 import { SceneManager } from './renderer/SceneManager'
 import { AudioAnalyzer } from './audio/AudioAnalyzer'
 import { TapTempo } from './audio/BeatClock'
-import { AudioFeatures, defaultAudioFeatures } from './scenes/types'
+import { FilePlayer, isSupportedAudioFile } from './audio/FilePlayer'
+import { AudioFeatures, SceneParameter, defaultAudioFeatures } from './scenes/types'
 
 export function App() {
-  const { sceneCount, setMicMode, setMicStatus } = useStore()
+  const { sceneCount, setMicMode, setInputStatus, setInputSource, setSongSection, setSongKey } = useStore()
 
   const [sceneNames, setSceneNames] = useState<string[]>([])
+  const [sceneParameters, setSceneParameters] = useState<SceneParameter[][]>([])
   const [audioFeatures, setAudioFeatures] = useState<AudioFeatures>(defaultAudioFeatures)
+  const [filePlayer, setFilePlayer] = useState<FilePlayer | null>(null)
+  const [audioAnalyzer, setAudioAnalyzer] = useState<AudioAnalyzer | null>(null)
 
   const audioAnalyzerRef = useRef<AudioAnalyzer | null>(null)
   const tapTempoRef = useRef<TapTempo | null>(null)
 
+  const getTapTempo = useCallback(() => tapTempoRef.current, [])
+
   // Initialize keyboard shortcuts
-  useKeyboard({ sceneCount })
+  useKeyboard({ sceneCount, getTapTempo })
+
+  // MIDI controllers drive the same settings as the overlay
+  useMidiController({ sceneNames, sceneParameters, getTapTempo })
 
   const handleSceneManagerReady = useCallback((sceneManager: SceneManager) => {
     setSceneNames(sceneManager.getSceneNames())
+    setSceneParameters(sceneManager.getDefaultSceneParameters())
   }, [])
 
   const handleAudioAnalyzerReady = useCallback(async (analyzer: AudioAnalyzer) => {
     audioAnalyzerRef.current = analyzer
+    setAudioAnalyzer(analyzer)
+
+    // Inputs can end on their own (screen sharing stopped, device unplugged)
+    analyzer.setStatusListener((status) => {
+      setInputStatus(status)
+      setMicMode(status === 'on')
+    })
+    analyzer.setSectionListener((event) => {
+      setSongSection(event.section, event.confidence)
+    })
+    analyzer.setKeyListener((event) => {
+      setSongKey(event.key, event.mode, event.confidence)
+    })
 
     // Auto-enable microphone on page load
-    const status = await analyzer.startMic()
-    setMicStatus(status)
+    setInputSource('mic')
+    const status = await analyzer.startMic(useStore.getState().inputDeviceId)
+    setInputStatus(status)
 
     if (status === 'on') {
       setMicMode(true)
     }
-  }, [setMicMode, setMicStatus])
+  }, [setMicMode, setInputStatus, setInputSource, setSongSection, setSongKey])
 
   const handleTapTempoReady = useCallback((tapTempo: TapTempo) => {
     tapTempoRef.current = tapTempo
@@ -51,24 +76,82 @@ export function App() {
     const analyzer = audioAnalyzerRef.current
     if (!analyzer) return
 
-    const status = await analyzer.startMic()
-    setMicStatus(status)
+    setFilePlayer(null)
+    setInputSource('mic')
+    const status = await analyzer.startMic(useStore.getState().inputDeviceId)
+    setInputStatus(status)
 
     if (status === 'on') {
       setMicMode(true)
     } else {
       setMicMode(false)
     }
-  }, [setMicMode, setMicStatus])
+  }, [setMicMode, setInputStatus, setInputSource])
+
+  const handleCaptureDisplay = useCallback(async () => {
+    const analyzer = audioAnalyzerRef.current
+    if (!analyzer) return
+
+    setFilePlayer(null)
+    setInputSource('display')
+    setInputStatus('requesting')
+
+    const status = await analyzer.startDisplayCapture()
+    setInputStatus(status)
+    setMicMode(status === 'on')
+  }, [setMicMode, setInputStatus, setInputSource])
 
   const handleDisableMic = useCallback(() => {
     const analyzer = audioAnalyzerRef.current
     if (analyzer) {
-      analyzer.stopMic()
+      analyzer.stop()
     }
-    setMicStatus('off')
+    setFilePlayer(null)
+    setInputStatus('off')
     setMicMode(false)
-  }, [setMicMode, setMicStatus])
+  }, [setMicMode, setInputStatus])
+
+  const handleLoadFile = useCallback(async (file: File) => {
+    const analyzer = audioAnalyzerRef.current
+    if (!analyzer) return
+
+    setFilePlayer(null)
+    setInputSource('file')
+    setInputStatus('loading')
+
+    const status = await analyzer.loadFile(file)
+
+    // Another input may have been started while the file was decoding
+    if (analyzer.getInputSource() !== 'file') return
+
+    setInputStatus(status)
+    setFilePlayer(analyzer.getFilePlayer())
+    setMicMode(status === 'on')
+  }, [setMicMode, setInputStatus, setInputSource])
+
+  // Drag-and-drop an audio file anywhere on the page
+  useEffect(() => {
+    const handleDragOver = (e: DragEvent) => {
+      e.preventDefault()
+    }
+
+    const handleDrop = (e: DragEvent) => {
+      e.preventDefault()
+      const files = Array.from(e.dataTransfer?.files || [])
+      const file = files.find(isSupportedAudioFile)
+      if (file) {
+        handleLoadFile(file)
+      }
+    }
+
+    window.addEventListener('dragover', handleDragOver)
+    window.addEventListener('drop', handleDrop)
+
+    return () => {
+      window.removeEventListener('dragover', handleDragOver)
+      window.removeEventListener('drop', handleDrop)
+    }
+  }, [handleLoadFile])
 
   return (
     <>
@@ -87,8 +170,13 @@ export function App() {
 
       <SettingsOverlay
         sceneNames={sceneNames}
+        sceneParameters={sceneParameters}
         onEnableMic={handleEnableMic}
         onDisableMic={handleDisableMic}
+        onLoadFile={handleLoadFile}
+        onCaptureDisplay={handleCaptureDisplay}
+        filePlayer={filePlayer}
+        audioAnalyzer={audioAnalyzer}
         tapTempo={tapTempoRef.current || new TapTempo()}
       />
     </>
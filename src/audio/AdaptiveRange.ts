@@ -0,0 +1,34 @@
+import { clamp } from '../utils/math'
+
+// Running min/max that follows a value and relaxes toward it over time,
+// so a feature can be mapped to 0-1 whatever its absolute level
+export class AdaptiveRange {
+  private min: number = Infinity
+  private max: number = -Infinity
+  private relax: number    // share of the gap closed per update
+  private minSpan: number  // keeps near-constant input from being blown up
+
+  constructor(timeConstant: number, updateRate: number, minSpan: number) {
+    this.relax = 1 - Math.exp(-1 / (timeConstant * updateRate))
+    this.minSpan = minSpan
+  }
+
+  normalize(value: number): number {
+    if (!isFinite(this.min)) {
+      this.min = value
+      this.max = value
+    }
+
+    this.min = value < this.min ? value : this.min + (value - this.min) * this.relax
+    this.max = value > this.max ? value : this.max + (value - this.max) * this.relax
+
+    const span = Math.max(this.max - this.min, this.minSpan)
+    const center = (this.max + this.min) / 2
+    return clamp((value - (center - span / 2)) / span, 0, 1)
+  }
+
+  reset(): void {
+    this.min = Infinity
+    this.max = -Infinity
+  }
+}
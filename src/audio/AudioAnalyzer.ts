@@ -1,238 +1,646 @@
-import { AudioFeatures, MicStatus, defaultAudioFeatures } from '../scenes/types'
-import { BeatDetector } from './BeatDetector'
+import { AudioFeatures, InputChannel, InputSource, InputStatus, KeyMode, SongSection, defaultAudioFeatures } from '../scenes/types'
+import { FilePlayer } from './FilePlayer'
+import { BeatGrid } from './BeatGrid'
+import { hashAudioFile, loadBeatGrid } from './BeatGridLoader'
+import { ANALYSIS_PROCESSOR_NAME, AnalysisFrame, AnalysisSettings, FFTSize } from './FrameAnalyzer'
+import { TempoLock } from './TempoLock'
+import analysisWorkletUrl from './analysis.worklet.ts?worker&url'
 import { clamp } from '../utils/math'
 
+export interface AudioInputDevice {
+  deviceId: string
+  label: string
+}
+
+export interface InputLevel {
+  rms: number       // 0-1+, after input gain
+  peak: number      // 0-1+, after input gain
+  clipping: boolean // peak hit full scale within the hold time
+}
+
+// Sent whenever the detected song section changes
+export interface SectionEvent {
+  section: SongSection
+  previous: SongSection
+  confidence: number // 0-1
+  time: number       // performance.now() ms
+}
+
+// Sent when a key is first estimated and whenever it changes
+export interface KeyEvent {
+  key: number        // tonic pitch class, 0 = C
+  mode: KeyMode
+  confidence: number // 0-1
+  time: number       // performance.now() ms
+}
+
+const CLIP_HOLD_TIME = 1000 // ms
+// A drop read from the beat grid only fires this close to where it lands,
+// not when a seek skips into the middle of one
+const GRID_DROP_WINDOW = 0.5 // seconds
+
 export class AudioAnalyzer {
   private audioContext: AudioContext | null = null
-  private analyser: AnalyserNode | null = null
+  private analysisNode: AudioWorkletNode | null = null
+
+  // Input stage: sources -> inputNode -> (channel routing) -> gainNode -> analysisNode
+  private inputNode: GainNode | null = null
+  private splitter: ChannelSplitterNode | null = null
+  private gainNode: GainNode | null = null
+  private inputChannel: InputChannel = 'mono'
+  private inputGain: number = 0 // dB
+
+  private level: InputLevel = { rms: 0, peak: 0, clipping: false }
+  private lastClipTime: number = -Infinity
+
+  // Microphone device
+  private deviceId: string = '' // '' = system default
+  private micDropped: boolean = false
   private source: MediaStreamAudioSourceNode | null = null
   private stream: MediaStream | null = null
+  private filePlayer: FilePlayer | null = null
+  private gridRequest: AbortController | null = null
 
-  private frequencyData: Float32Array<ArrayBuffer> = new Float32Array(256)
-  private timeDomainData: Float32Array<ArrayBuffer> = new Float32Array(256)
+  private status: InputStatus = 'off'
+  private inputSource: InputSource = 'mic'
 
-  private beatDetector: BeatDetector
-  private micStatus: MicStatus = 'off'
+  // Latest results posted by the analysis worklet
+  private features: AudioFeatures = { ...defaultAudioFeatures }
+  private estimatedBPM: number = 140
+  private tempoConfidence: number = 0
+  private pendingOnsetTime: number | null = null // performance.now() ms
 
-  private smoothedFeatures: AudioFeatures = { ...defaultAudioFeatures }
   private smoothing: number = 0.8
   private sensitivity: number = 0.5
+  private fftSize: FFTSize = 512
+  private lowCrossover: number = 250  // Hz
+  private highCrossover: number = 4000
+
+  // Tempo lock is owned here and mirrored into the worklet
+  private tempoLock: TempoLock = new TempoLock()
 
-  private isOnset: boolean = false
-  private lastOnsetTime: number = 0
+  // Notified when an input stops on its own (e.g. the user ends screen sharing)
+  private statusListener: ((status: InputStatus) => void) | null = null
+  private sectionListener: ((event: SectionEvent) => void) | null = null
+  private keyListener: ((event: KeyEvent) => void) | null = null
 
   constructor() {
-    this.beatDetector = new BeatDetector()
+    if (navigator.mediaDevices) {
+      navigator.mediaDevices.addEventListener('devicechange', this.handleDeviceChange)
+    }
   }
 
   async init(): Promise<void> {
-    // AudioContext will be created when mic is started
+    // AudioContext will be created when an input is started
+  }
+
+  // Create the context and analysis worklet shared by every input source.
+  // Callers should check this.audioContext afterwards in case a newer input took over.
+  private async createAnalysisChain(): Promise<AudioContext> {
+    const audioContext = new AudioContext()
+    this.audioContext = audioContext
+
+    await audioContext.audioWorklet.addModule(analysisWorkletUrl)
+    if (this.audioContext !== audioContext) {
+      return audioContext
+    }
+
+    // Analysis runs on the audio thread at a fixed hop, independent of the frame rate
+    const settings: AnalysisSettings = {
+      sensitivity: this.sensitivity,
+      smoothing: this.smoothing,
+      fftSize: this.fftSize,
+      lowCrossover: this.lowCrossover,
+      highCrossover: this.highCrossover,
+      bpmLocked: this.tempoLock.isLocked(),
+      lockedBPM: this.tempoLock.getLockedBPM()
+    }
+    this.analysisNode = new AudioWorkletNode(audioContext, ANALYSIS_PROCESSOR_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      processorOptions: settings
+    })
+    this.analysisNode.port.onmessage = (event: MessageEvent<AnalysisFrame>) => {
+      if (this.audioContext !== audioContext) return
+      this.handleAnalysisFrame(audioContext, event.data)
+    }
+    // The node outputs silence; connecting it keeps the graph pulling it
+    this.analysisNode.connect(audioContext.destination)
+
+    // Input stage with gain and channel selection in front of the analysis
+    this.inputNode = audioContext.createGain()
+    this.splitter = audioContext.createChannelSplitter(2)
+    this.gainNode = audioContext.createGain()
+    // Everything reaching the gain stage is summed down to mono
+    this.gainNode.channelCount = 1
+    this.gainNode.channelCountMode = 'explicit'
+    this.gainNode.channelInterpretation = 'speakers'
+    this.gainNode.gain.value = Math.pow(10, this.inputGain / 20)
+    this.gainNode.connect(this.analysisNode)
+    this.connectInputChannel()
+
+    return audioContext
+  }
+
+  private handleAnalysisFrame(audioContext: AudioContext, frame: AnalysisFrame): void {
+    const previousSection = this.features.section
+    const previousKey = this.features.key
+    const previousKeyMode = this.features.keyMode
+
+    // A file's beat grid has its sections on the bar; otherwise follow the live detector
+    let section = frame.section
+    let sectionConfidence = frame.sectionConfidence
+    let dropOnset = frame.dropOnset
+    const beatGrid = this.filePlayer?.getBeatGrid()
+    if (this.filePlayer && beatGrid) {
+      const position = this.filePlayer.getPosition()
+      const marker = beatGrid.getSection(position)
+      section = marker.section
+      sectionConfidence = marker.confidence
+      dropOnset = section === 'drop' && previousSection !== 'drop' && position - marker.time < GRID_DROP_WINDOW
+    }
+
+    // Several frames can arrive per render frame; keep drum hits until they are read
+    this.features = {
+      energy: frame.energy,
+      bass: frame.bass,
+      mid: frame.mid,
+      high: frame.high,
+      kick: frame.kick,
+      snare: frame.snare,
+      hat: frame.hat,
+      kickOnset: frame.kickOnset || this.features.kickOnset,
+      snareOnset: frame.snareOnset || this.features.snareOnset,
+      hatOnset: frame.hatOnset || this.features.hatOnset,
+      centroid: frame.centroid,
+      rolloff: frame.rolloff,
+      flatness: frame.flatness,
+      flux: frame.flux,
+      zcr: frame.zcr,
+      loudness: frame.loudness,
+      section,
+      sectionConfidence,
+      dropOnset: dropOnset || this.features.dropOnset,
+      chroma: frame.chroma as Float32Array<ArrayBuffer>,
+      key: frame.key,
+      keyMode: frame.keyMode,
+      keyConfidence: frame.keyConfidence,
+      spectrum: frame.spectrum as Float32Array<ArrayBuffer>,
+      bands: frame.bands as Float32Array<ArrayBuffer>,
+      waveform: frame.waveform as Float32Array<ArrayBuffer>
+    }
+    this.estimatedBPM = frame.estimatedBPM
+    this.tempoConfidence = frame.tempoConfidence
+    if (this.tempoLock.update(frame.estimatedBPM, frame.tempoConfidence, frame.time)) {
+      this.postSettings({ bpmLocked: true, lockedBPM: this.tempoLock.getLockedBPM() })
+    }
+
+    // Input level meter with clip hold
+    const now = performance.now()
+    if (frame.peak >= 1) {
+      this.lastClipTime = now
+    }
+    this.level = { rms: frame.rms, peak: frame.peak, clipping: now - this.lastClipTime < CLIP_HOLD_TIME }
+
+    if (frame.onsetTime !== null) {
+      this.pendingOnsetTime = this.toPerformanceTime(audioContext, frame.onsetTime)
+    }
+
+    if (section !== previousSection) {
+      this.sectionListener?.({
+        section,
+        previous: previousSection,
+        confidence: sectionConfidence,
+        time: this.toPerformanceTime(audioContext, frame.time)
+      })
+    }
+
+    if (frame.key !== null && (frame.key !== previousKey || frame.keyMode !== previousKeyMode)) {
+      this.keyListener?.({
+        key: frame.key,
+        mode: frame.keyMode,
+        confidence: frame.keyConfidence,
+        time: this.toPerformanceTime(audioContext, frame.time)
+      })
+    }
+  }
+
+  // Map audio time (seconds) onto the performance.now() timeline (ms)
+  private toPerformanceTime(audioContext: AudioContext, audioTime: number): number {
+    return performance.now() - (audioContext.currentTime - audioTime) * 1000
+  }
+
+  private postSettings(settings: Partial<AnalysisSettings>): void {
+    this.analysisNode?.port.postMessage(settings)
+  }
+
+  private connectInputChannel(): void {
+    if (!this.inputNode || !this.splitter || !this.gainNode) return
+
+    this.inputNode.disconnect()
+    this.splitter.disconnect()
+
+    if (this.inputChannel === 'mono') {
+      this.inputNode.connect(this.gainNode)
+    } else {
+      this.inputNode.connect(this.splitter)
+      this.splitter.connect(this.gainNode, this.inputChannel === 'left' ? 0 : 1)
+    }
   }
 
-  async startMic(): Promise<MicStatus> {
-    if (this.micStatus === 'on') {
+  // Pass '' for the system default device
+  async startMic(deviceId: string = this.deviceId): Promise<InputStatus> {
+    if (this.inputSource === 'mic' && this.status === 'on' && deviceId === this.deviceId) {
       return 'on'
     }
 
-    this.micStatus = 'requesting'
+    this.stop()
+    this.inputSource = 'mic'
+    this.deviceId = deviceId
+    this.status = 'requesting'
 
     try {
       // Check if getUserMedia is available
       if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
-        this.micStatus = 'no-device'
-        return this.micStatus
+        this.status = 'no-device'
+        return this.status
       }
 
       // Request microphone access
-      this.stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          echoCancellation: false,
-          noiseSuppression: false,
-          autoGainControl: false
-        }
-      })
-
-      // Create audio context
-      this.audioContext = new AudioContext()
-
-      // Create analyser
-      this.analyser = this.audioContext.createAnalyser()
-      this.analyser.fftSize = 512
-      this.analyser.smoothingTimeConstant = 0.3
+      const constraints: MediaTrackConstraints = {
+        echoCancellation: false,
+        noiseSuppression: false,
+        autoGainControl: false
+      }
 
-      // Initialize data arrays
-      this.frequencyData = new Float32Array(this.analyser.frequencyBinCount)
-      this.timeDomainData = new Float32Array(this.analyser.fftSize)
+      try {
+        this.stream = await navigator.mediaDevices.getUserMedia({
+          audio: deviceId ? { ...constraints, deviceId: { exact: deviceId } } : constraints
+        })
+      } catch (err) {
+        // The remembered device is gone - fall back to the default one
+        if (!deviceId || !(err instanceof DOMException) ||
+            (err.name !== 'OverconstrainedError' && err.name !== 'NotFoundError')) {
+          throw err
+        }
+        this.stream = await navigator.mediaDevices.getUserMedia({ audio: constraints })
+      }
+      this.watchTrackEnd(this.stream)
 
-      // Connect source to analyser
-      this.source = this.audioContext.createMediaStreamSource(this.stream)
-      this.source.connect(this.analyser)
+      const audioContext = await this.createAnalysisChain()
+      if (this.audioContext !== audioContext) {
+        return this.status
+      }
 
-      // Update beat detector sample rate
-      this.beatDetector = new BeatDetector(this.audioContext.sampleRate)
-      this.beatDetector.setSensitivity(this.sensitivity)
-      this.beatDetector.setSmoothing(this.smoothing)
+      // Connect source to the input stage
+      this.source = audioContext.createMediaStreamSource(this.stream)
+      this.source.connect(this.inputNode!)
 
-      this.micStatus = 'on'
-      return this.micStatus
+      this.status = 'on'
+      return this.status
     } catch (err) {
       console.error('Failed to start microphone:', err)
 
       if (err instanceof DOMException) {
         if (err.name === 'NotAllowedError' || err.name === 'PermissionDeniedError') {
-          this.micStatus = 'blocked'
+          this.status = 'blocked'
         } else if (err.name === 'NotFoundError') {
-          this.micStatus = 'no-device'
+          this.status = 'no-device'
         } else {
-          this.micStatus = 'blocked'
+          this.status = 'blocked'
         }
       } else {
-        this.micStatus = 'blocked'
+        this.status = 'blocked'
       }
 
-      return this.micStatus
+      return this.status
     }
   }
 
-  stopMic(): void {
-    if (this.source) {
-      this.source.disconnect()
-      this.source = null
+  // Capture tab or system audio through the screen-share picker
+  async startDisplayCapture(): Promise<InputStatus> {
+    if (this.inputSource === 'display' && this.status === 'on') {
+      return 'on'
     }
 
-    if (this.stream) {
-      this.stream.getTracks().forEach(track => track.stop())
-      this.stream = null
-    }
+    this.stop()
+    this.inputSource = 'display'
+    this.status = 'requesting'
 
-    if (this.audioContext) {
-      this.audioContext.close()
-      this.audioContext = null
+    try {
+      if (!navigator.mediaDevices || !navigator.mediaDevices.getDisplayMedia) {
+        this.status = 'no-device'
+        return this.status
+      }
+
+      // Browsers require video in the request; it is dropped right away
+      const stream = await navigator.mediaDevices.getDisplayMedia({
+        video: true,
+        audio: {
+          echoCancellation: false,
+          noiseSuppression: false,
+          autoGainControl: false
+        }
+      })
+      stream.getVideoTracks().forEach(track => track.stop())
+
+      // The user picked a window or screen without sharing its audio
+      if (stream.getAudioTracks().length === 0) {
+        stream.getTracks().forEach(track => track.stop())
+        this.status = 'no-audio'
+        return this.status
+      }
+
+      this.stream = stream
+      this.watchTrackEnd(stream)
+
+      const audioContext = await this.createAnalysisChain()
+      if (this.audioContext !== audioContext) {
+        return this.status
+      }
+
+      this.source = audioContext.createMediaStreamSource(stream)
+      this.source.connect(this.inputNode!)
+
+      this.status = 'on'
+      return this.status
+    } catch (err) {
+      console.error('Failed to capture display audio:', err)
+
+      if (err instanceof DOMException && err.name === 'NotFoundError') {
+        this.status = 'no-device'
+      } else {
+        // NotAllowedError also covers the user cancelling the picker
+        this.status = 'blocked'
+      }
+
+      return this.status
     }
+  }
 
-    this.analyser = null
-    this.micStatus = 'off'
-    this.beatDetector.reset()
-    this.smoothedFeatures = { ...defaultAudioFeatures }
+  setStatusListener(listener: ((status: InputStatus) => void) | null): void {
+    this.statusListener = listener
   }
 
-  dispose(): void {
-    this.stopMic()
+  setSectionListener(listener: ((event: SectionEvent) => void) | null): void {
+    this.sectionListener = listener
   }
 
-  getMicStatus(): MicStatus {
-    return this.micStatus
+  setKeyListener(listener: ((event: KeyEvent) => void) | null): void {
+    this.keyListener = listener
   }
 
-  update(): void {
-    if (!this.analyser || this.micStatus !== 'on') return
+  // Stop analysis when the stream's audio ends outside our control
+  private watchTrackEnd(stream: MediaStream): void {
+    for (const track of stream.getAudioTracks()) {
+      track.addEventListener('ended', () => {
+        if (this.stream !== stream) return
+        const wasMic = this.inputSource === 'mic'
+        this.stop()
+        // Remember that the mic was lost so it can come back on devicechange
+        this.micDropped = wasMic
+        this.statusListener?.(this.status)
+      })
+    }
+  }
 
-    // Get frequency data (in dB)
-    this.analyser.getFloatFrequencyData(this.frequencyData)
-    this.analyser.getFloatTimeDomainData(this.timeDomainData)
+  // Reconnect a microphone that dropped out once a usable device shows up again
+  private handleDeviceChange = async (): Promise<void> => {
+    if (this.inputSource !== 'mic' || !this.micDropped) return
 
-    // Normalize frequency data from dB (-100 to 0) to 0-1
-    const normalizedFreq = new Float32Array(this.frequencyData.length)
-    for (let i = 0; i < this.frequencyData.length; i++) {
-      // dB range is typically -100 to 0
-      normalizedFreq[i] = clamp((this.frequencyData[i] + 100) / 100, 0, 1)
+    const devices = await this.listInputDevices()
+    if (devices.length === 0) return
+
+    this.micDropped = false
+    const status = await this.startMic(this.deviceId)
+    this.statusListener?.(status)
+  }
+
+  async listInputDevices(): Promise<AudioInputDevice[]> {
+    if (!navigator.mediaDevices || !navigator.mediaDevices.enumerateDevices) {
+      return []
     }
 
-    // Calculate energy bands
-    const binCount = normalizedFreq.length
-    const bassEnd = Math.floor(binCount * 0.1)    // ~0-500Hz
-    const midEnd = Math.floor(binCount * 0.5)     // ~500-5000Hz
+    const devices = await navigator.mediaDevices.enumerateDevices()
+    return devices
+      .filter(device => device.kind === 'audioinput')
+      .map((device, index) => ({
+        deviceId: device.deviceId,
+        // Labels stay empty until microphone permission has been granted
+        label: device.label || `Input ${index + 1}`
+      }))
+  }
+
+  getDeviceId(): string {
+    return this.deviceId
+  }
+
+  setInputGain(db: number): void {
+    this.inputGain = clamp(db, -24, 24)
+    if (this.gainNode) {
+      this.gainNode.gain.value = Math.pow(10, this.inputGain / 20)
+    }
+  }
 
-    let bassEnergy = 0
-    let midEnergy = 0
-    let highEnergy = 0
-    let totalEnergy = 0
+  setInputChannel(channel: InputChannel): void {
+    this.inputChannel = channel
+    this.connectInputChannel()
+  }
 
-    for (let i = 0; i < binCount; i++) {
-      const val = normalizedFreq[i]
-      totalEnergy += val
+  getInputLevel(): InputLevel {
+    return this.level
+  }
 
-      if (i < bassEnd) {
-        bassEnergy += val
-      } else if (i < midEnd) {
-        midEnergy += val
-      } else {
-        highEnergy += val
+  // Decode an audio file and play it through the analysis chain
+  async loadFile(file: File): Promise<InputStatus> {
+    this.stop()
+    this.inputSource = 'file'
+    this.status = 'loading'
+
+    let audioContext: AudioContext | null = null
+
+    try {
+      audioContext = await this.createAnalysisChain()
+      const data = await file.arrayBuffer()
+      // Hash first: decoding detaches the data
+      const hash = await hashAudioFile(data)
+      const buffer = await audioContext.decodeAudioData(data)
+
+      // A newer input may have replaced this one while decoding
+      if (this.audioContext !== audioContext) {
+        return this.status
+      }
+
+      this.filePlayer = new FilePlayer(audioContext, buffer, this.inputNode!, file.name)
+      this.filePlayer.play()
+      this.prepareBeatGrid(this.filePlayer, buffer, hash)
+
+      this.status = 'on'
+      return this.status
+    } catch (err) {
+      console.error('Failed to load audio file:', err)
+      if (audioContext && this.audioContext !== audioContext) {
+        return this.status
+      }
+      this.stop()
+      this.inputSource = 'file'
+      this.status = 'error'
+      return this.status
+    }
+  }
+
+  // Beats follow the live analysis until the grid is ready
+  private async prepareBeatGrid(player: FilePlayer, buffer: AudioBuffer, hash: string | null): Promise<void> {
+    const request = new AbortController()
+    this.gridRequest = request
+
+    try {
+      const grid = await loadBeatGrid(buffer, hash, request.signal)
+      if (this.filePlayer === player) {
+        player.setBeatGrid(new BeatGrid(grid))
+      }
+    } catch (err) {
+      if (request.signal.aborted) return
+      console.error('Failed to analyse beat grid:', err)
+      player.setBeatGrid(null)
+    } finally {
+      if (this.gridRequest === request) {
+        this.gridRequest = null
       }
     }
+  }
 
-    // Normalize by band size
-    bassEnergy = bassEnergy / bassEnd
-    midEnergy = midEnergy / (midEnd - bassEnd)
-    highEnergy = highEnergy / (binCount - midEnd)
-    totalEnergy = totalEnergy / binCount
+  // Stop whichever input is active
+  stop(): void {
+    if (this.gridRequest) {
+      this.gridRequest.abort()
+      this.gridRequest = null
+    }
 
-    // Calculate RMS from time domain
-    let rms = 0
-    for (let i = 0; i < this.timeDomainData.length; i++) {
-      rms += this.timeDomainData[i] * this.timeDomainData[i]
+    if (this.filePlayer) {
+      this.filePlayer.dispose()
+      this.filePlayer = null
     }
-    rms = Math.sqrt(rms / this.timeDomainData.length)
 
-    // Apply sensitivity
-    const sensitivityMult = 0.5 + this.sensitivity * 1.5
-    bassEnergy = clamp(bassEnergy * sensitivityMult, 0, 1)
-    midEnergy = clamp(midEnergy * sensitivityMult, 0, 1)
-    highEnergy = clamp(highEnergy * sensitivityMult, 0, 1)
-    totalEnergy = clamp(rms * sensitivityMult * 3, 0, 1)
+    if (this.source) {
+      this.source.disconnect()
+      this.source = null
+    }
 
-    // Smooth the values
-    this.smoothedFeatures.bass = this.smoothedFeatures.bass * this.smoothing + bassEnergy * (1 - this.smoothing)
-    this.smoothedFeatures.mid = this.smoothedFeatures.mid * this.smoothing + midEnergy * (1 - this.smoothing)
-    this.smoothedFeatures.high = this.smoothedFeatures.high * this.smoothing + highEnergy * (1 - this.smoothing)
-    this.smoothedFeatures.energy = this.smoothedFeatures.energy * this.smoothing + totalEnergy * (1 - this.smoothing)
+    if (this.stream) {
+      this.stream.getTracks().forEach(track => track.stop())
+      this.stream = null
+    }
 
-    // Copy spectrum and waveform
-    this.smoothedFeatures.spectrum = normalizedFreq.slice() as Float32Array<ArrayBuffer>
-    this.smoothedFeatures.waveform = this.timeDomainData.slice() as Float32Array<ArrayBuffer>
+    if (this.audioContext) {
+      this.audioContext.close()
+      this.audioContext = null
+    }
 
-    // Detect beats
-    const bassData = normalizedFreq.slice(0, bassEnd)
-    this.isOnset = this.beatDetector.detectOnset(normalizedFreq, bassData)
+    this.analysisNode = null
+    this.inputNode = null
+    this.splitter = null
+    this.gainNode = null
+    this.level = { rms: 0, peak: 0, clipping: false }
+    this.micDropped = false
+    this.status = 'off'
+    this.features = { ...defaultAudioFeatures }
+    this.estimatedBPM = 140
+    this.tempoConfidence = 0
+    this.tempoLock.reset()
+    this.pendingOnsetTime = null
+  }
+
+  dispose(): void {
+    this.stop()
 
-    if (this.isOnset) {
-      this.lastOnsetTime = performance.now()
+    if (navigator.mediaDevices) {
+      navigator.mediaDevices.removeEventListener('devicechange', this.handleDeviceChange)
     }
   }
 
+  getStatus(): InputStatus {
+    return this.status
+  }
+
+  getInputSource(): InputSource {
+    return this.inputSource
+  }
+
+  getFilePlayer(): FilePlayer | null {
+    return this.filePlayer
+  }
+
+  // Copy of the latest features; the render loop scales them in place.
+  // Drum onset flags are cleared once read.
   getFeatures(): AudioFeatures {
-    return this.smoothedFeatures
+    const features = { ...this.features }
+    this.features.kickOnset = false
+    this.features.snareOnset = false
+    this.features.hatOnset = false
+    this.features.dropOnset = false
+    return features
   }
 
-  isCurrentlyOnset(): boolean {
-    // Return true for a short window after onset
-    const now = performance.now()
-    return now - this.lastOnsetTime < 50
+  // Time of the latest onset not yet read, in performance.now() ms, or null.
+  // Measured in audio time on the worklet, so it is exact to the sample block.
+  getNewOnsetTime(): number | null {
+    const time = this.pendingOnsetTime
+    this.pendingOnsetTime = null
+    return time
   }
 
   getEstimatedBPM(): number {
-    return this.beatDetector.getEstimatedBPM()
+    if (this.tempoLock.isLocked()) return this.tempoLock.getLockedBPM()
+
+    const beatGrid = this.filePlayer?.getBeatGrid()
+    if (this.filePlayer && beatGrid) return beatGrid.getBPM(this.filePlayer.getPosition())
+    return this.estimatedBPM
+  }
+
+  // 0-1, how reliable the current tempo estimate is
+  getTempoConfidence(): number {
+    return this.filePlayer?.getBeatGrid() ? 1 : this.tempoConfidence
   }
 
   isLocked(): boolean {
-    return this.beatDetector.isLocked()
+    return this.tempoLock.isLocked()
+  }
+
+  setAutoLock(enabled: boolean): void {
+    this.tempoLock.setAutoLock(enabled)
   }
 
-  lockBPM(): void {
-    this.beatDetector.lockBPM()
+  // Lock to the current estimate, or to an explicit tempo
+  lockBPM(bpm: number = this.estimatedBPM): void {
+    this.tempoLock.lock(bpm)
+    this.postSettings({ bpmLocked: true, lockedBPM: bpm })
   }
 
   unlockBPM(): void {
-    this.beatDetector.unlockBPM()
+    this.tempoLock.unlock(this.estimatedBPM)
+    this.postSettings({ bpmLocked: false })
   }
 
   setSensitivity(value: number): void {
     this.sensitivity = clamp(value, 0, 1)
-    this.beatDetector.setSensitivity(value)
+    this.postSettings({ sensitivity: this.sensitivity })
   }
 
   setSmoothing(value: number): void {
     this.smoothing = clamp(value, 0, 0.99)
-    this.beatDetector.setSmoothing(value)
+    this.postSettings({ smoothing: this.smoothing })
+  }
+
+  setFFTSize(size: FFTSize): void {
+    this.fftSize = size
+    this.postSettings({ fftSize: size })
+  }
+
+  // Band split points in Hz: bass below `low`, high above `high`
+  setCrossovers(low: number, high: number): void {
+    this.lowCrossover = low
+    this.highCrossover = Math.max(high, low)
+    this.postSettings({ lowCrossover: this.lowCrossover, highCrossover: this.highCrossover })
   }
 }
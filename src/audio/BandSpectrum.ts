@@ -0,0 +1,52 @@
+export const BAND_COUNT = 32
+export const MIN_BAND_FREQUENCY = 30     // Hz
+export const MAX_BAND_FREQUENCY = 16000  // Hz
+
+// Log-spaced bands from MIN_BAND_FREQUENCY to MAX_BAND_FREQUENCY, so every
+// octave gets the same number of bands the way we hear it
+export class BandSpectrum {
+  private bandCount: number
+  // Fractional bin positions of each band's edges, BAND_COUNT + 1 entries
+  private edges: Float32Array
+
+  constructor(sampleRate: number, fftSize: number, bandCount: number = BAND_COUNT) {
+    this.bandCount = bandCount
+    this.edges = new Float32Array(bandCount + 1)
+
+    const binWidth = sampleRate / fftSize
+    const maxFrequency = Math.min(MAX_BAND_FREQUENCY, sampleRate / 2)
+    const octaves = Math.log2(maxFrequency / MIN_BAND_FREQUENCY)
+
+    for (let i = 0; i <= bandCount; i++) {
+      this.edges[i] = (MIN_BAND_FREQUENCY * Math.pow(2, (octaves * i) / bandCount)) / binWidth
+    }
+  }
+
+  // Average `spectrum` (0-1 per bin) into the bands
+  process(spectrum: Float32Array, output: Float32Array = new Float32Array(this.bandCount)): Float32Array {
+    const lastBin = spectrum.length - 1
+
+    for (let band = 0; band < this.bandCount; band++) {
+      const low = this.edges[band]
+      const high = this.edges[band + 1]
+      const first = Math.ceil(low)
+      const last = Math.min(Math.floor(high), lastBin)
+
+      if (last >= first) {
+        let sum = 0
+        for (let i = first; i <= last; i++) {
+          sum += spectrum[i]
+        }
+        output[band] = sum / (last - first + 1)
+      } else {
+        // Low bands are narrower than a bin: interpolate at the band center
+        const center = Math.min((low + high) / 2, lastBin)
+        const i = Math.floor(center)
+        const t = center - i
+        output[band] = spectrum[i] * (1 - t) + spectrum[Math.min(i + 1, lastBin)] * t
+      }
+    }
+
+    return output
+  }
+}
@@ -0,0 +1,27 @@
+import { BeatInfo } from '../scenes/types'
+import { mod } from '../utils/math'
+
+export const BEATS_PER_BAR = 4
+export const BARS_PER_PHRASE = 8
+
+export type BarPosition = Pick<
+  BeatInfo,
+  'beatIndex' | 'beatInBar' | 'barIndex' | 'barPhase' | 'phraseIndex' | 'isDownbeat' | 'isPhraseStart'
+>
+
+// Derive bar and phrase position from a running beat index
+export function getBarPosition(beatIndex: number, phase: number, isOnset: boolean): BarPosition {
+  const beatInBar = mod(beatIndex, BEATS_PER_BAR)
+  const barIndex = Math.floor(beatIndex / BEATS_PER_BAR)
+  const isDownbeat = isOnset && beatInBar === 0
+
+  return {
+    beatIndex,
+    beatInBar,
+    barIndex,
+    barPhase: (beatInBar + phase) / BEATS_PER_BAR,
+    phraseIndex: Math.floor(barIndex / BARS_PER_PHRASE),
+    isDownbeat,
+    isPhraseStart: isDownbeat && mod(barIndex, BARS_PER_PHRASE) === 0
+  }
+}
@@ -1,10 +1,13 @@
 import { BeatInfo } from '../scenes/types'
+import { getBarPosition } from './BarCounter'
+import { MIN_TEMPO, MAX_TEMPO } from './TempoEstimator'
 
 export class BeatClock {
   private bpm: number = 140
   private startTime: number = 0
   private lastBeatTime: number = 0
   private beatCount: number = 0
+  private downbeatOffset: number = 0 // beat count at the current downbeat reference
   private isRunning: boolean = false
 
   constructor(bpm: number = 140) {
@@ -15,6 +18,7 @@ export class BeatClock {
     this.startTime = performance.now()
     this.lastBeatTime = this.startTime
     this.beatCount = 0
+    this.downbeatOffset = 0
     this.isRunning = true
   }
 
@@ -23,25 +27,39 @@ export class BeatClock {
   }
 
   setBPM(bpm: number): void {
-    if (bpm !== this.bpm) {
-      // Adjust start time to maintain phase continuity
-      const currentPhase = this.getPhase()
-      this.bpm = bpm
-      const beatDuration = 60000 / this.bpm
-      this.startTime = performance.now() - currentPhase * beatDuration
+    if (bpm === this.bpm) return
+
+    // Move the start so the beat position (count and phase) carries on at the
+    // new tempo; beat, bar and phrase counters must not restart
+    if (this.isRunning) {
+      const now = performance.now()
+      const position = (now - this.startTime) / (60000 / this.bpm)
+      this.startTime = now - position * (60000 / bpm)
     }
+    this.bpm = bpm
   }
 
   getBPM(): number {
     return this.bpm
   }
 
-  private getPhase(): number {
-    if (!this.isRunning) return 0
-    const now = performance.now()
+  // Continue from another source's beat position (and tempo, if given) without a
+  // jump in phase or bar count
+  sync(beatIndex: number, phase: number, bpm: number = this.bpm, time: number = performance.now()): void {
+    this.bpm = bpm
     const beatDuration = 60000 / this.bpm
-    const elapsed = now - this.startTime
-    return (elapsed % beatDuration) / beatDuration
+    this.startTime = time - phase * beatDuration
+    this.lastBeatTime = this.startTime
+    this.beatCount = 0
+    this.downbeatOffset = -beatIndex
+    this.isRunning = true
+  }
+
+  // Mark the beat nearest to `time` as the first beat of a bar
+  resetDownbeat(time: number = performance.now()): void {
+    if (!this.isRunning) return
+    const beatDuration = 60000 / this.bpm
+    this.downbeatOffset = Math.round((time - this.startTime) / beatDuration)
   }
 
   update(): BeatInfo {
@@ -50,7 +68,9 @@ export class BeatClock {
         phase: 0,
         intensity: 0,
         isOnset: false,
-        bpm: this.bpm
+        bpm: this.bpm,
+        ...getBarPosition(0, 0, false),
+        isDrop: false
       }
     }
 
@@ -76,7 +96,9 @@ export class BeatClock {
       phase,
       intensity,
       isOnset,
-      bpm: this.bpm
+      bpm: this.bpm,
+      ...getBarPosition(currentBeat - this.downbeatOffset, phase, isOnset),
+      isDrop: false
     }
   }
 }
@@ -117,8 +139,8 @@ export class TapTempo {
     // Convert to BPM
     const bpm = 60000 / avgInterval
 
-    // Clamp to reasonable range
-    return Math.max(60, Math.min(200, Math.round(bpm)))
+    // Clamp to the range tempo is detected and locked in
+    return Math.max(MIN_TEMPO, Math.min(MAX_TEMPO, Math.round(bpm)))
   }
 
   reset(): void {
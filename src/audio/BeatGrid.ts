@@ -0,0 +1,426 @@
+import { BeatInfo, SongSection } from '../scenes/types'
+import { BEATS_PER_BAR, getBarPosition } from './BarCounter'
+import { FrameAnalyzer, HOP_SIZE, AnalysisSettings } from './FrameAnalyzer'
+import { clamp, mod } from '../utils/math'
+
+// Bump whenever the analysis changes so cached grids are rebuilt
+export const BEAT_GRID_VERSION = 1
+
+export interface TempoSegment {
+  start: number // seconds
+  bpm: number
+}
+
+export interface SectionMarker {
+  time: number        // seconds, on a downbeat
+  section: SongSection
+  confidence: number  // 0-1
+}
+
+// Everything known about a file's rhythm, worked out once ahead of playback
+export interface BeatGridData {
+  version: number
+  duration: number       // seconds
+  beats: number[]        // beat times, seconds
+  firstDownbeat: number  // index in `beats` of the first beat of a bar
+  tempo: TempoSegment[]
+  sections: SectionMarker[]
+}
+
+const offlineSettings: AnalysisSettings = {
+  sensitivity: 0.5,
+  smoothing: 0.8,
+  fftSize: 512,
+  lowCrossover: 250,
+  highCrossover: 4000,
+  bpmLocked: false,
+  lockedBPM: 140
+}
+
+// Tempo map: estimates are pooled per window and neighbours within the tolerance merged
+const TEMPO_WINDOW = 1           // seconds
+const MIN_TEMPO_CONFIDENCE = 0.3
+const TEMPO_TOLERANCE = 0.01     // relative
+const MIN_SEGMENT_TIME = 8       // seconds; shorter stretches join their neighbours
+
+// Onsets this close to a grid beat, as a fraction of the period, fit the grid
+const MATCH_WINDOW = 0.15
+const MAX_FIT_DEVIATION = 0.02 // relative to the estimated period
+const PHASE_BINS = 48
+
+// A beat keeps its onset for this long after it, as a fraction of the beat
+const ONSET_WINDOW = 0.25
+
+// How long after the music changes the live detector reports each section, seconds
+const SECTION_DELAY: Record<SongSection, number> = {
+  groove: 0.5,
+  breakdown: 4.5,
+  buildup: 4,
+  drop: 0.25
+}
+
+interface OfflineFrame {
+  time: number
+  bpm: number
+  confidence: number
+  rms: number
+  section: SongSection
+  sectionConfidence: number
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 2)]
+}
+
+// Run the live analysis over a whole decoded file and fit a grid to it.
+// Plain math with no Web Audio dependencies so it can run in a worker.
+export function buildBeatGrid(samples: Float32Array, sampleRate: number): BeatGridData {
+  const analyzer = new FrameAnalyzer(sampleRate, offlineSettings)
+  const frames: OfflineFrame[] = []
+  const onsets: number[] = []
+  const snares: number[] = []
+
+  for (let start = 0; start + HOP_SIZE <= samples.length; start += HOP_SIZE) {
+    const frame = analyzer.process(samples.subarray(start, start + HOP_SIZE), start)
+    frames.push({
+      time: frame.time,
+      bpm: frame.estimatedBPM,
+      confidence: frame.tempoConfidence,
+      rms: frame.rms,
+      section: frame.section,
+      sectionConfidence: frame.sectionConfidence
+    })
+    if (frame.onsetTime !== null) {
+      onsets.push(frame.onsetTime)
+    }
+    if (frame.snareOnset) {
+      snares.push(frame.time)
+    }
+  }
+
+  const duration = samples.length / sampleRate
+  const tempo = buildTempoMap(frames)
+  const beats = placeBeats(tempo, onsets, duration)
+  const firstDownbeat = findFirstDownbeat(beats, frames, snares)
+
+  return {
+    version: BEAT_GRID_VERSION,
+    duration,
+    beats,
+    firstDownbeat,
+    tempo,
+    sections: placeSections(frames, beats, firstDownbeat)
+  }
+}
+
+// Piecewise constant tempo; empty when the file never had a steady beat
+function buildTempoMap(frames: OfflineFrame[]): TempoSegment[] {
+  const windows: TempoSegment[] = []
+  let pool: number[] = []
+  let windowStart = 0
+
+  for (const frame of frames) {
+    if (frame.time - windowStart >= TEMPO_WINDOW) {
+      if (pool.length > 0) {
+        windows.push({ start: windowStart, bpm: median(pool) })
+      }
+      pool = []
+      windowStart += TEMPO_WINDOW * Math.floor((frame.time - windowStart) / TEMPO_WINDOW)
+    }
+    if (frame.confidence >= MIN_TEMPO_CONFIDENCE) {
+      pool.push(frame.bpm)
+    }
+  }
+
+  // Merge runs of similar windows, then fold short runs into the one before
+  const runs: { start: number, end: number, estimates: number[] }[] = []
+  for (const window of windows) {
+    const run = runs[runs.length - 1]
+    if (run && Math.abs(window.bpm / median(run.estimates) - 1) <= TEMPO_TOLERANCE) {
+      run.estimates.push(window.bpm)
+      run.end = window.start + TEMPO_WINDOW
+    } else {
+      runs.push({ start: window.start, end: window.start + TEMPO_WINDOW, estimates: [window.bpm] })
+    }
+  }
+
+  const segments: TempoSegment[] = []
+  for (const run of runs) {
+    const previous = segments[segments.length - 1]
+    const bpm = median(run.estimates)
+    if (previous && (run.end - run.start < MIN_SEGMENT_TIME || Math.abs(bpm / previous.bpm - 1) <= TEMPO_TOLERANCE)) {
+      continue
+    }
+    segments.push({ start: segments.length === 0 ? 0 : run.start, bpm })
+  }
+
+  return segments
+}
+
+// Lay beats over each tempo segment at the phase and period that best fit its onsets
+function placeBeats(tempo: TempoSegment[], onsets: number[], duration: number): number[] {
+  const beats: number[] = []
+
+  tempo.forEach((segment, index) => {
+    const end = tempo[index + 1]?.start ?? duration
+    const segmentOnsets = onsets.filter(time => time >= segment.start && time < end)
+    let period = 60 / segment.bpm
+    let origin = segmentOnsets.length > 0 ? strongestPhase(segmentOnsets, period) : segment.start
+
+    // Least-squares line through the onsets that land near a beat
+    for (let pass = 0; pass < 2; pass++) {
+      const fit = fitLine(segmentOnsets, origin, period)
+      if (fit === null) break
+      origin = fit.origin
+      period = fit.period
+    }
+
+    // Carry on from the previous segment without doubling up a beat
+    const last = beats[beats.length - 1] ?? -Infinity
+    const from = Math.max(segment.start, last + period / 2)
+    for (let n = Math.ceil((from - origin) / period); origin + n * period < end; n++) {
+      const time = origin + n * period
+      if (time >= 0 && time > last + period / 2) {
+        beats.push(time)
+      }
+    }
+  })
+
+  return beats
+}
+
+// Beat phase that most onsets agree on, as a time
+function strongestPhase(onsets: number[], period: number): number {
+  const histogram = new Float32Array(PHASE_BINS)
+  for (const time of onsets) {
+    histogram[Math.floor(mod(time / period, 1) * PHASE_BINS) % PHASE_BINS]++
+  }
+
+  // Neighbouring bins count too, so a phase right on a bin edge isn't split
+  let best = 0
+  let bestScore = -1
+  for (let bin = 0; bin < PHASE_BINS; bin++) {
+    const score = histogram[bin] * 2 +
+      histogram[(bin + 1) % PHASE_BINS] + histogram[(bin + PHASE_BINS - 1) % PHASE_BINS]
+    if (score > bestScore) {
+      bestScore = score
+      best = bin
+    }
+  }
+
+  // Refine to the mean phase of the onsets in the winning bins
+  let sum = 0
+  let count = 0
+  const center = (best + 0.5) / PHASE_BINS
+  for (const time of onsets) {
+    const offset = mod(time / period - center + 0.5, 1) - 0.5
+    if (Math.abs(offset) <= 1.5 / PHASE_BINS) {
+      sum += offset
+      count++
+    }
+  }
+  return (center + (count > 0 ? sum / count : 0)) * period
+}
+
+function fitLine(onsets: number[], origin: number, period: number): { origin: number, period: number } | null {
+  let count = 0
+  let sumN = 0
+  let sumT = 0
+  let sumNN = 0
+  let sumNT = 0
+
+  for (const time of onsets) {
+    const n = Math.round((time - origin) / period)
+    if (Math.abs(time - origin - n * period) > period * MATCH_WINDOW) continue
+    count++
+    sumN += n
+    sumT += time
+    sumNN += n * n
+    sumNT += n * time
+  }
+
+  const denominator = count * sumNN - sumN * sumN
+  if (count < 4 || denominator === 0) return null
+
+  const slope = (count * sumNT - sumN * sumT) / denominator
+  // A fit that wandered off the estimate has locked onto something else
+  if (Math.abs(slope / period - 1) > MAX_FIT_DEVIATION) return null
+  return { origin: (sumT - slope * sumN) / count, period: slope }
+}
+
+// Arrangements change on the bar, and snares sit on 2 and 4. Score each of
+// the four possible bar phases on both and take the best.
+function findFirstDownbeat(beats: number[], frames: OfflineFrame[], snares: number[]): number {
+  if (beats.length < BEATS_PER_BAR * 2) return 0
+
+  // Loudness of every beat, in dB
+  const loudness = new Float32Array(beats.length)
+  let frameIndex = 0
+  for (let i = 0; i < beats.length; i++) {
+    const end = beats[i + 1] ?? Infinity
+    let sum = 0
+    let count = 0
+    while (frameIndex < frames.length && frames[frameIndex].time < end) {
+      if (frames[frameIndex].time >= beats[i]) {
+        sum += frames[frameIndex].rms * frames[frameIndex].rms
+        count++
+      }
+      frameIndex++
+    }
+    loudness[i] = 10 * Math.log10((count > 0 ? sum / count : 0) + 1e-12)
+  }
+
+  const change = new Float32Array(BEATS_PER_BAR)
+  const backbeats = new Float32Array(BEATS_PER_BAR)
+  for (let i = 1; i < beats.length; i++) {
+    change[i % BEATS_PER_BAR] += Math.abs(loudness[i] - loudness[i - 1])
+  }
+  let snareIndex = 0
+  for (let i = 0; i < beats.length; i++) {
+    const window = ((beats[i + 1] ?? beats[i]) - beats[i]) * MATCH_WINDOW
+    while (snareIndex < snares.length && snares[snareIndex] < beats[i] - window) {
+      snareIndex++
+    }
+    if (snareIndex < snares.length && snares[snareIndex] <= beats[i] + window) {
+      backbeats[i % BEATS_PER_BAR]++
+    }
+  }
+
+  const totalChange = change.reduce((sum, value) => sum + value, 0) || 1
+  const totalBackbeats = backbeats.reduce((sum, value) => sum + value, 0) || 1
+  let best = 0
+  let bestScore = -Infinity
+  for (let offset = 0; offset < BEATS_PER_BAR; offset++) {
+    const score = change[offset] / totalChange -
+      (backbeats[offset] + backbeats[(offset + 2) % BEATS_PER_BAR]) / totalBackbeats / 2
+    if (score > bestScore) {
+      bestScore = score
+      best = offset
+    }
+  }
+  return best
+}
+
+// Section changes from the live detector, moved back by its delay onto the nearest bar line
+function placeSections(frames: OfflineFrame[], beats: number[], firstDownbeat: number): SectionMarker[] {
+  const sections: SectionMarker[] = [{ time: 0, section: 'groove', confidence: 0 }]
+
+  for (let i = 1; i < frames.length; i++) {
+    const frame = frames[i]
+    if (frame.section === frames[i - 1].section) continue
+
+    const time = snapToBar(frame.time - SECTION_DELAY[frame.section], beats, firstDownbeat)
+    const last = sections[sections.length - 1]
+    if (time <= last.time) {
+      last.section = frame.section
+      last.confidence = frame.sectionConfidence
+    } else {
+      sections.push({ time, section: frame.section, confidence: frame.sectionConfidence })
+    }
+  }
+
+  return sections
+}
+
+function snapToBar(time: number, beats: number[], firstDownbeat: number): number {
+  let nearest = Math.max(0, time)
+  let distance = Infinity
+  for (let i = firstDownbeat; i < beats.length; i += BEATS_PER_BAR) {
+    if (Math.abs(beats[i] - time) < distance) {
+      distance = Math.abs(beats[i] - time)
+      nearest = beats[i]
+    }
+  }
+  return nearest
+}
+
+// Beat position at any point of a file, read from its grid.
+// Pure lookups on the playback position, so seeks and loops stay in phase.
+export class BeatGrid {
+  readonly data: BeatGridData
+  private firstDownbeat: number
+
+  constructor(data: BeatGridData) {
+    this.data = data
+    this.firstDownbeat = data.firstDownbeat
+  }
+
+  // Grids of files without a steady beat have nothing to follow
+  hasBeats(): boolean {
+    return this.data.beats.length >= 2
+  }
+
+  // Index of the beat at or before `time` and its length, extrapolated past either end
+  private locate(time: number): { index: number, start: number, period: number } {
+    const beats = this.data.beats
+    const last = beats.length - 1
+
+    if (time < beats[0]) {
+      const period = beats[1] - beats[0]
+      const index = Math.floor((time - beats[0]) / period)
+      return { index, start: beats[0] + index * period, period }
+    }
+    if (time >= beats[last]) {
+      const period = beats[last] - beats[last - 1]
+      const elapsed = Math.floor((time - beats[last]) / period)
+      return { index: last + elapsed, start: beats[last] + elapsed * period, period }
+    }
+
+    let low = 0
+    let high = last
+    while (high - low > 1) {
+      const middle = (low + high) >> 1
+      if (beats[middle] <= time) {
+        low = middle
+      } else {
+        high = middle
+      }
+    }
+    return { index: low, start: beats[low], period: beats[low + 1] - beats[low] }
+  }
+
+  // Beat at playback position `position`; `previousPosition` is where the
+  // last update was, so a beat passed in between reads as an onset
+  getBeatInfo(position: number, previousPosition: number): BeatInfo {
+    const beat = this.locate(position)
+    const phase = clamp((position - beat.start) / beat.period, 0, 1)
+    const isOnset = beat.index !== this.locate(previousPosition).index && phase < ONSET_WINDOW
+
+    return {
+      phase,
+      // Same decay shape as BeatClock
+      intensity: Math.max(0, 1 - phase / 0.3),
+      isOnset,
+      bpm: 60 / beat.period,
+      ...getBarPosition(beat.index - this.firstDownbeat, phase, isOnset),
+      isDrop: false
+    }
+  }
+
+  getBPM(position: number): number {
+    let bpm = this.data.tempo[0]?.bpm ?? 0
+    for (const segment of this.data.tempo) {
+      if (segment.start > position) break
+      bpm = segment.bpm
+    }
+    return bpm
+  }
+
+  getSection(position: number): SectionMarker {
+    let marker = this.data.sections[0]
+    for (const section of this.data.sections) {
+      if (section.time > position) break
+      marker = section
+    }
+    return marker
+  }
+
+  // Mark the beat nearest to `position` as the first beat of a bar
+  resetDownbeat(position: number): void {
+    if (!this.hasBeats()) return
+    const beat = this.locate(position)
+    const nearest = position - beat.start < beat.period / 2 ? beat.index : beat.index + 1
+    this.firstDownbeat = mod(nearest, BEATS_PER_BAR)
+  }
+}
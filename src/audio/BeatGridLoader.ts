@@ -0,0 +1,113 @@
+import { BEAT_GRID_VERSION, BeatGridData } from './BeatGrid'
+import type { BeatGridRequest } from './beatGrid.worker'
+import BeatGridWorker from './beatGrid.worker.ts?worker'
+
+const DATABASE_NAME = 'raveflow'
+const DATABASE_VERSION = 1
+const GRID_STORE = 'beat-grids'
+
+// SHA-256 of the file's bytes, or null where Web Crypto is unavailable (insecure origins)
+export async function hashAudioFile(data: ArrayBuffer): Promise<string | null> {
+  if (!crypto.subtle) return null
+
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data))
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(GRID_STORE)
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// The cache only saves work, so it never fails a load: errors read as a miss
+async function readCachedGrid(hash: string): Promise<BeatGridData | null> {
+  try {
+    const database = await openDatabase()
+    const grid = await new Promise<BeatGridData | undefined>((resolve, reject) => {
+      const request = database.transaction(GRID_STORE).objectStore(GRID_STORE).get(hash)
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    database.close()
+
+    // Grids from an older analysis are rebuilt
+    return grid && grid.version === BEAT_GRID_VERSION ? grid : null
+  } catch (err) {
+    console.warn('Failed to read cached beat grid:', err)
+    return null
+  }
+}
+
+async function writeCachedGrid(hash: string, grid: BeatGridData): Promise<void> {
+  try {
+    const database = await openDatabase()
+    await new Promise<void>((resolve, reject) => {
+      const transaction = database.transaction(GRID_STORE, 'readwrite')
+      transaction.objectStore(GRID_STORE).put(grid, hash)
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+    })
+    database.close()
+  } catch (err) {
+    console.warn('Failed to cache beat grid:', err)
+  }
+}
+
+// Average the channels, as the live input stage does
+function mixToMono(buffer: AudioBuffer): Float32Array {
+  const mono = new Float32Array(buffer.length)
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel)
+    for (let i = 0; i < mono.length; i++) {
+      mono[i] += data[i] / buffer.numberOfChannels
+    }
+  }
+  return mono
+}
+
+function analyzeInWorker(buffer: AudioBuffer, signal: AbortSignal): Promise<BeatGridData> {
+  return new Promise((resolve, reject) => {
+    const worker = new BeatGridWorker()
+    const finish = () => {
+      worker.terminate()
+      signal.removeEventListener('abort', abort)
+    }
+    const abort = () => {
+      finish()
+      reject(new DOMException('Beat grid analysis was cancelled', 'AbortError'))
+    }
+
+    worker.onmessage = (event: MessageEvent<BeatGridData>) => {
+      finish()
+      resolve(event.data)
+    }
+    worker.onerror = (event) => {
+      finish()
+      reject(new Error(event.message))
+    }
+    signal.addEventListener('abort', abort)
+
+    const request: BeatGridRequest = { samples: mixToMono(buffer), sampleRate: buffer.sampleRate }
+    worker.postMessage(request, [request.samples.buffer])
+  })
+}
+
+// Grid for a decoded file: from the cache when this file was seen before,
+// otherwise analysed in a worker and cached under the file's hash
+export async function loadBeatGrid(buffer: AudioBuffer, hash: string | null, signal: AbortSignal): Promise<BeatGridData> {
+  const cached = hash ? await readCachedGrid(hash) : null
+  if (cached) return cached
+
+  signal.throwIfAborted()
+  const grid = await analyzeInWorker(buffer, signal)
+  if (hash) {
+    await writeCachedGrid(hash, grid)
+  }
+  return grid
+}
@@ -0,0 +1,58 @@
+import { BeatInfo } from '../scenes/types'
+import { BEATS_PER_BAR } from './BarCounter'
+import { mod } from '../utils/math'
+
+export type QuantizeMode = 'immediate' | 'beat' | 'bar' | 'bars-4' | 'bars-8' | 'bars-16'
+
+export const quantizeModes: QuantizeMode[] = ['immediate', 'beat', 'bar', 'bars-4', 'bars-8', 'bars-16']
+
+export const quantizeLabels: Record<QuantizeMode, string> = {
+  'immediate': 'Now',
+  'beat': 'Beat',
+  'bar': 'Bar',
+  'bars-4': '4 Bars',
+  'bars-8': '8 Bars',
+  'bars-16': '16 Bars'
+}
+
+// Length of each quantize grid in beats
+const quantizeBeats: Record<QuantizeMode, number> = {
+  'immediate': 0,
+  'beat': 1,
+  'bar': BEATS_PER_BAR,
+  'bars-4': BEATS_PER_BAR * 4,
+  'bars-8': BEATS_PER_BAR * 8,
+  'bars-16': BEATS_PER_BAR * 16
+}
+
+// Reports when the beat index crosses a boundary of the quantize grid.
+// Grids are aligned to the downbeat, so "next bar" means the next "one".
+export class BeatQuantizer {
+  private mode: QuantizeMode = 'immediate'
+  private lastBeatIndex: number | null = null
+
+  setMode(mode: QuantizeMode): void {
+    this.mode = mode
+  }
+
+  getMode(): QuantizeMode {
+    return this.mode
+  }
+
+  // Returns true on the frame a boundary of the current grid is crossed
+  update(beat: BeatInfo): boolean {
+    const previousBeatIndex = this.lastBeatIndex
+    this.lastBeatIndex = beat.beatIndex
+
+    if (this.mode === 'immediate') return true
+
+    // The first frame only establishes a reference, it is not a beat
+    if (previousBeatIndex === null || beat.beatIndex === previousBeatIndex) return false
+
+    return mod(beat.beatIndex, quantizeBeats[this.mode]) === 0
+  }
+
+  reset(): void {
+    this.lastBeatIndex = null
+  }
+}
@@ -0,0 +1,156 @@
+import { BeatInfo } from '../scenes/types'
+import { getBarPosition } from './BarCounter'
+import { clamp } from '../utils/math'
+
+const MIN_PERIOD = 60000 / 200 // ms
+const MAX_PERIOD = 60000 / 60
+
+// Phase-locked beat tracker for mic mode.
+// A free-running oscillator produces a continuous phase and predicted beats;
+// detected onsets nudge its phase and period toward the music. When onsets
+// stop (breakdowns) the oscillator keeps running at the last locked tempo.
+export class BeatTracker {
+  private period: number = 60000 / 140 // ms per beat
+  private lastBeatTime: number = 0
+  private beatIndex: number = -1
+  private hasReference: boolean = false
+  private pendingBeat: boolean = false
+  private offGridCount: number = 0
+  private candidatePeriod: number = 0 // a new tempo the detector is reporting, ms
+  private candidateCount: number = 0  // consecutive onsets it has held for
+
+  // Loop tuning
+  private phaseGain: number = 0.25     // share of phase error corrected per onset
+  private tempoGain: number = 0.05     // share of phase error fed into the period
+  private tempoPull: number = 0.05     // pull toward the detector's BPM estimate per onset
+  private captureWindow: number = 0.2  // max |error| as a fraction of the period
+  private resyncAfter: number = 4      // consecutive off-grid onsets before re-syncing
+  private tempoJump: number = 0.04     // estimate change, as a fraction of the period, that may be a new tempo
+  private jumpAfter: number = 4        // onsets a new tempo must hold before the period jumps to it
+
+  // `onsetTime` is the time of an onset detected this frame, or null
+  update(now: number, onsetTime: number | null, targetBPM: number): BeatInfo {
+    if (onsetTime !== null) {
+      this.handleOnset(onsetTime, 60000 / targetBPM)
+    }
+
+    let isOnset = false
+
+    if (this.hasReference) {
+      if (this.pendingBeat) {
+        isOnset = true
+        this.pendingBeat = false
+      }
+
+      // Advance the oscillator; skip whole beats after pauses or dropped frames
+      const elapsedBeats = Math.floor((now - this.lastBeatTime) / this.period)
+      if (elapsedBeats > 0) {
+        this.lastBeatTime += elapsedBeats * this.period
+        this.beatIndex += elapsedBeats
+        isOnset = true
+      }
+    }
+
+    const phase = this.hasReference
+      ? clamp((now - this.lastBeatTime) / this.period, 0, 1)
+      : 0
+
+    // Same decay shape as BeatClock
+    const intensity = this.hasReference
+      ? Math.max(0, 1 - (now - this.lastBeatTime) / (this.period * 0.3))
+      : 0
+
+    return {
+      phase,
+      intensity,
+      isOnset,
+      bpm: 60000 / this.period,
+      ...getBarPosition(this.hasReference ? this.beatIndex : 0, phase, isOnset),
+      isDrop: false
+    }
+  }
+
+  private handleOnset(time: number, targetPeriod: number): void {
+    if (!this.hasReference) {
+      this.period = clamp(targetPeriod, MIN_PERIOD, MAX_PERIOD)
+      this.startBeatAt(time)
+      return
+    }
+
+    this.followTempoJump(targetPeriod)
+
+    // Error relative to the nearest predicted beat (negative = onset came early)
+    let error = time - this.lastBeatTime
+    if (error > this.period / 2) {
+      error -= this.period
+    }
+
+    if (Math.abs(error) <= this.period * this.captureWindow) {
+      this.offGridCount = 0
+      this.lastBeatTime += error * this.phaseGain
+      this.period += error * this.tempoGain
+    } else {
+      // Off-beat hits are normal (syncopation); only re-sync if they persist
+      this.offGridCount++
+      if (this.offGridCount >= this.resyncAfter) {
+        this.offGridCount = 0
+        this.startBeatAt(time)
+      }
+    }
+
+    this.period += (targetPeriod - this.period) * this.tempoPull
+    this.period = clamp(this.period, MIN_PERIOD, MAX_PERIOD)
+  }
+
+  // A steady, big change in the detector's estimate is a new tempo: take it at
+  // once rather than creep there. A one-off jump (an octave error) is ignored.
+  private followTempoJump(targetPeriod: number): void {
+    if (Math.abs(targetPeriod - this.period) <= this.period * this.tempoJump) {
+      this.candidateCount = 0
+      return
+    }
+
+    if (this.candidateCount > 0 &&
+        Math.abs(targetPeriod - this.candidatePeriod) <= this.candidatePeriod * this.tempoJump) {
+      this.candidateCount++
+    } else {
+      this.candidatePeriod = targetPeriod
+      this.candidateCount = 1
+    }
+
+    if (this.candidateCount >= this.jumpAfter) {
+      this.period = clamp(targetPeriod, MIN_PERIOD, MAX_PERIOD)
+      this.candidateCount = 0
+    }
+  }
+
+  private startBeatAt(time: number): void {
+    this.lastBeatTime = time
+    this.beatIndex++
+    this.hasReference = true
+    this.pendingBeat = true
+  }
+
+  getBPM(): number {
+    return 60000 / this.period
+  }
+
+  // Mark the beat nearest to `time` as the first beat of a bar
+  resetDownbeat(time: number): void {
+    if (!this.hasReference) {
+      this.beatIndex = -1
+      return
+    }
+    // Pressed just after a beat: that beat was the one. Otherwise the next beat is.
+    this.beatIndex = time - this.lastBeatTime < this.period / 2 ? 0 : -1
+  }
+
+  reset(): void {
+    this.lastBeatTime = 0
+    this.beatIndex = -1
+    this.hasReference = false
+    this.pendingBeat = false
+    this.offGridCount = 0
+    this.candidateCount = 0
+  }
+}
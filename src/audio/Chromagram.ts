@@ -0,0 +1,128 @@
+import { FFT } from './FFT'
+
+export const PITCH_CLASS_COUNT = 12
+
+// Notes need a much finer spectrum than the beat analysis: at 8192 points
+// neighbouring semitones are resolved down to about 100 Hz
+const CHROMA_FFT_SIZE = 8192
+const CHROMA_INTERVAL = 4      // hops between chroma frames
+const MIN_FREQUENCY = 100      // Hz; below this bins are wider than a semitone
+const MAX_FREQUENCY = 4000     // Hz; above this it is mostly overtones and cymbals
+const CHROMA_TIME = 0.3        // seconds of smoothing on the reported chroma
+const SILENCE_LEVEL = -70      // dB
+const A4_FREQUENCY = 440
+const A4_NOTE = 69             // MIDI note number
+
+// Energy per pitch class (C, C#, ... B) from a long FFT of the recent signal
+export class Chromagram {
+  private fft: FFT = new FFT(CHROMA_FFT_SIZE)
+  private buffer: Float32Array = new Float32Array(CHROMA_FFT_SIZE)
+  private window: Float32Array = new Float32Array(CHROMA_FFT_SIZE)
+  private windowed: Float32Array = new Float32Array(CHROMA_FFT_SIZE)
+  private magnitudes: Float32Array = new Float32Array(CHROMA_FFT_SIZE / 2)
+
+  // Pitch class and weight of every bin in range; -1 outside it
+  private binPitchClass: Int8Array = new Int8Array(CHROMA_FFT_SIZE / 2).fill(-1)
+  private binWeight: Float32Array = new Float32Array(CHROMA_FFT_SIZE / 2)
+
+  private frame: Float32Array = new Float32Array(PITCH_CLASS_COUNT)
+  private smoothed: Float32Array = new Float32Array(PITCH_CLASS_COUNT)
+  private smoothingCoefficient: number
+  private hopCount: number = 0
+
+  readonly frameRate: number // chroma frames per second
+
+  constructor(sampleRate: number, hopRate: number) {
+    this.frameRate = hopRate / CHROMA_INTERVAL
+    this.smoothingCoefficient = Math.exp(-1 / (CHROMA_TIME * this.frameRate))
+
+    // Hann window
+    for (let i = 0; i < CHROMA_FFT_SIZE; i++) {
+      this.window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / CHROMA_FFT_SIZE)
+    }
+
+    // Each bin counts towards its nearest semitone, less the further off it is
+    const binWidth = sampleRate / CHROMA_FFT_SIZE
+    for (let i = 1; i < CHROMA_FFT_SIZE / 2; i++) {
+      const frequency = i * binWidth
+      if (frequency < MIN_FREQUENCY || frequency > MAX_FREQUENCY) continue
+
+      const note = 12 * Math.log2(frequency / A4_FREQUENCY) + A4_NOTE
+      const nearest = Math.round(note)
+      this.binPitchClass[i] = ((nearest % 12) + 12) % 12
+      this.binWeight[i] = Math.pow(Math.cos(Math.PI * (note - nearest)), 2)
+    }
+  }
+
+  // Feed one hop of new samples; returns true when a new chroma frame is ready
+  process(hop: Float32Array): boolean {
+    this.buffer.copyWithin(0, hop.length)
+    this.buffer.set(hop, CHROMA_FFT_SIZE - hop.length)
+
+    this.hopCount = (this.hopCount + 1) % CHROMA_INTERVAL
+    if (this.hopCount !== 0) return false
+
+    for (let i = 0; i < CHROMA_FFT_SIZE; i++) {
+      this.windowed[i] = this.buffer[i] * this.window[i]
+    }
+    this.fft.magnitudes(this.windowed, this.magnitudes)
+
+    // Only spectral peaks count, so noise from drums adds little
+    const magnitudes = this.magnitudes
+    const frame = this.frame
+    frame.fill(0)
+    let power = 0
+    for (let i = 1; i < magnitudes.length - 1; i++) {
+      const pitchClass = this.binPitchClass[i]
+      if (pitchClass < 0) continue
+
+      const magnitude = magnitudes[i]
+      power += magnitude * magnitude
+      if (magnitude > magnitudes[i - 1] && magnitude >= magnitudes[i + 1]) {
+        frame[pitchClass] += magnitude * this.binWeight[i]
+      }
+    }
+
+    let sum = 0
+    for (let i = 0; i < PITCH_CLASS_COUNT; i++) {
+      sum += frame[i]
+    }
+    // Nothing to hear: keep the last chroma rather than report noise
+    if (10 * Math.log10(power + 1e-12) < SILENCE_LEVEL || sum <= 0) {
+      frame.fill(0)
+      return false
+    }
+
+    const smoothing = this.smoothingCoefficient
+    for (let i = 0; i < PITCH_CLASS_COUNT; i++) {
+      frame[i] /= sum
+      this.smoothed[i] = this.smoothed[i] * smoothing + frame[i] * (1 - smoothing)
+    }
+
+    return true
+  }
+
+  // Latest raw frame, summing to 1
+  getFrame(): Float32Array {
+    return this.frame
+  }
+
+  // Smoothed chroma scaled so the strongest pitch class is 1
+  getChroma(output: Float32Array = new Float32Array(PITCH_CLASS_COUNT)): Float32Array {
+    let max = 0
+    for (let i = 0; i < PITCH_CLASS_COUNT; i++) {
+      max = Math.max(max, this.smoothed[i])
+    }
+    for (let i = 0; i < PITCH_CLASS_COUNT; i++) {
+      output[i] = max > 0 ? this.smoothed[i] / max : 0
+    }
+    return output
+  }
+
+  reset(): void {
+    this.buffer.fill(0)
+    this.frame.fill(0)
+    this.smoothed.fill(0)
+    this.hopCount = 0
+  }
+}
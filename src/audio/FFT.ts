@@ -0,0 +1,69 @@
+// Radix-2 FFT for real input; size must be a power of two
+export class FFT {
+  readonly size: number
+  private real: Float32Array
+  private imag: Float32Array
+  private cosTable: Float32Array
+  private sinTable: Float32Array
+  private reverse: Uint32Array
+
+  constructor(size: number) {
+    this.size = size
+    this.real = new Float32Array(size)
+    this.imag = new Float32Array(size)
+
+    this.cosTable = new Float32Array(size / 2)
+    this.sinTable = new Float32Array(size / 2)
+    for (let i = 0; i < size / 2; i++) {
+      this.cosTable[i] = Math.cos((2 * Math.PI * i) / size)
+      this.sinTable[i] = Math.sin((2 * Math.PI * i) / size)
+    }
+
+    // Bit-reversal permutation
+    const bits = Math.log2(size)
+    this.reverse = new Uint32Array(size)
+    for (let i = 0; i < size; i++) {
+      let reversed = 0
+      for (let b = 0; b < bits; b++) {
+        reversed = (reversed << 1) | ((i >> b) & 1)
+      }
+      this.reverse[i] = reversed
+    }
+  }
+
+  // Write |X[k]| / size for k < size / 2 into output
+  magnitudes(input: Float32Array, output: Float32Array): void {
+    const { size, real, imag, cosTable, sinTable, reverse } = this
+
+    for (let i = 0; i < size; i++) {
+      real[reverse[i]] = input[i]
+      imag[reverse[i]] = 0
+    }
+
+    for (let length = 2; length <= size; length *= 2) {
+      const half = length / 2
+      const step = size / length
+
+      for (let start = 0; start < size; start += length) {
+        for (let k = 0; k < half; k++) {
+          const cos = cosTable[k * step]
+          const sin = sinTable[k * step]
+          const a = start + k
+          const b = a + half
+
+          const tr = real[b] * cos + imag[b] * sin
+          const ti = imag[b] * cos - real[b] * sin
+
+          real[b] = real[a] - tr
+          imag[b] = imag[a] - ti
+          real[a] += tr
+          imag[a] += ti
+        }
+      }
+    }
+
+    for (let k = 0; k < size / 2; k++) {
+      output[k] = Math.sqrt(real[k] * real[k] + imag[k] * imag[k]) / size
+    }
+  }
+}
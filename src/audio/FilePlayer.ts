@@ -0,0 +1,176 @@
+import { BeatGrid } from './BeatGrid'
+
+// Whether the file's beat grid is still being worked out, ready, or not to be had
+export type BeatGridStatus = 'analysing' | 'ready' | 'unavailable'
+
+export interface PlaybackState {
+  fileName: string
+  duration: number  // seconds
+  position: number  // seconds
+  isPlaying: boolean
+  loop: boolean
+  monitor: boolean
+  gridStatus: BeatGridStatus
+  gridBPM: number | null // beat grid tempo at the current position
+}
+
+export const supportedAudioExtensions = ['.mp3', '.wav', '.ogg', '.flac']
+
+export function isSupportedAudioFile(file: File): boolean {
+  const name = file.name.toLowerCase()
+  return file.type.startsWith('audio/') || supportedAudioExtensions.some(ext => name.endsWith(ext))
+}
+
+// Transport for a decoded audio file.
+// AudioBufferSourceNodes are one-shot, so every play/seek starts a fresh node.
+export class FilePlayer {
+  private context: AudioContext
+  private buffer: AudioBuffer
+  private analysisOutput: AudioNode
+  private monitorGain: GainNode
+  private fileName: string
+
+  private source: AudioBufferSourceNode | null = null
+  private startedAt: number = 0   // context time at which position 0 would have played
+  private pausedAt: number = 0    // position in seconds while paused
+  private playing: boolean = false
+  private loop: boolean = false
+  private monitor: boolean = true
+
+  private beatGrid: BeatGrid | null = null
+  private gridStatus: BeatGridStatus = 'analysing'
+
+  constructor(context: AudioContext, buffer: AudioBuffer, analysisOutput: AudioNode, fileName: string) {
+    this.context = context
+    this.buffer = buffer
+    this.analysisOutput = analysisOutput
+    this.fileName = fileName
+
+    // Monitoring goes to the speakers through its own gain so it can be muted
+    this.monitorGain = context.createGain()
+    this.monitorGain.gain.value = this.monitor ? 1 : 0
+    this.monitorGain.connect(context.destination)
+  }
+
+  play(): void {
+    if (this.playing) return
+
+    // Browsers suspend contexts created without a user gesture
+    if (this.context.state === 'suspended') {
+      this.context.resume()
+    }
+
+    const offset = this.pausedAt >= this.buffer.duration ? 0 : this.pausedAt
+
+    const source = this.context.createBufferSource()
+    source.buffer = this.buffer
+    source.loop = this.loop
+    source.connect(this.analysisOutput)
+    source.connect(this.monitorGain)
+    source.onended = () => {
+      // Ignore nodes we stopped ourselves (pause/seek)
+      if (this.source !== source) return
+      this.source = null
+      this.playing = false
+      this.pausedAt = 0
+    }
+    source.start(0, offset)
+
+    this.source = source
+    this.startedAt = this.context.currentTime - offset
+    this.playing = true
+  }
+
+  pause(): void {
+    if (!this.playing) return
+
+    this.pausedAt = this.getPosition()
+    this.stopSource()
+    this.playing = false
+  }
+
+  togglePlay(): void {
+    if (this.playing) {
+      this.pause()
+    } else {
+      this.play()
+    }
+  }
+
+  seek(seconds: number): void {
+    const position = Math.max(0, Math.min(this.buffer.duration, seconds))
+
+    if (this.playing) {
+      this.stopSource()
+      this.playing = false
+      this.pausedAt = position
+      this.play()
+    } else {
+      this.pausedAt = position
+    }
+  }
+
+  setLoop(loop: boolean): void {
+    // Re-anchor so the position stays put when looping is turned off mid-loop
+    const position = this.getPosition()
+    this.loop = loop
+    if (this.source) {
+      this.source.loop = loop
+      this.startedAt = this.context.currentTime - position
+    }
+  }
+
+  setMonitor(monitor: boolean): void {
+    this.monitor = monitor
+    this.monitorGain.gain.value = monitor ? 1 : 0
+  }
+
+  getPosition(): number {
+    if (!this.playing) return this.pausedAt
+
+    const elapsed = this.context.currentTime - this.startedAt
+    return this.loop
+      ? elapsed % this.buffer.duration
+      : Math.min(elapsed, this.buffer.duration)
+  }
+
+  // A grid without beats (e.g. ambient music) counts as unavailable
+  setBeatGrid(grid: BeatGrid | null): void {
+    this.beatGrid = grid && grid.hasBeats() ? grid : null
+    this.gridStatus = this.beatGrid ? 'ready' : 'unavailable'
+  }
+
+  getBeatGrid(): BeatGrid | null {
+    return this.beatGrid
+  }
+
+  getState(): PlaybackState {
+    const position = this.getPosition()
+    return {
+      fileName: this.fileName,
+      duration: this.buffer.duration,
+      position,
+      isPlaying: this.playing,
+      loop: this.loop,
+      monitor: this.monitor,
+      gridStatus: this.gridStatus,
+      gridBPM: this.beatGrid ? this.beatGrid.getBPM(position) : null
+    }
+  }
+
+  private stopSource(): void {
+    if (!this.source) return
+
+    const source = this.source
+    this.source = null
+    source.onended = null
+    source.stop()
+    source.disconnect()
+  }
+
+  dispose(): void {
+    this.stopSource()
+    this.playing = false
+    this.monitorGain.disconnect()
+  }
+}
@@ -0,0 +1,332 @@
+import { BeatDetector } from './BeatDetector'
+import { FFT } from './FFT'
+import { ONSET_FFT_SIZE } from './OnsetDetector'
+import { BandSpectrum } from './BandSpectrum'
+import { StructureDetector } from './StructureDetector'
+import { Chromagram } from './Chromagram'
+import { KeyEstimator, KeyState } from './KeyEstimator'
+import { KeyMode, SongSection } from '../scenes/types'
+import { SpectralFeatures, TimbreFeatures } from './SpectralFeatures'
+import { clamp, rescaleSmoothing } from '../utils/math'
+
+export const HOP_SIZE = 512 // samples between analysis frames
+
+// Larger FFTs resolve the low end better but smear transients over a longer window
+export type FFTSize = 512 | 1024 | 2048 | 4096
+export const fftSizes: FFTSize[] = [512, 1024, 2048, 4096]
+export const ANALYSIS_PROCESSOR_NAME = 'raveflow-analysis'
+
+const SPECTRUM_SMOOTHING = 0.3  // per frame, as on the AnalyserNode this replaced
+const MIN_DECIBELS = -100
+const REFERENCE_FRAME_RATE = 60 // feature smoothing was tuned at one update per display frame
+
+// Onsets are refined to the block with the sharpest energy rise in the recent signal
+const ONSET_SEARCH_SIZE = 4096
+const ONSET_BLOCK_SIZE = 32
+const ONSET_RISE_RATIO = 0.5
+
+export interface AnalysisSettings {
+  sensitivity: number
+  smoothing: number
+  fftSize: FFTSize
+  lowCrossover: number  // Hz, bass / mid boundary
+  highCrossover: number // Hz, mid / high boundary
+  bpmLocked: boolean
+  lockedBPM: number
+}
+
+// Result of one analysis frame, posted from the worklet to the main thread
+export interface AnalysisFrame extends TimbreFeatures {
+  time: number              // audio time at the end of the frame, seconds
+  energy: number
+  bass: number
+  mid: number
+  high: number
+  rms: number               // before sensitivity, for the level meter
+  peak: number
+  spectrum: Float32Array    // 0-1 per bin, fftSize / 2 bins
+  bands: Float32Array       // 0-1 per log-spaced band
+  waveform: Float32Array    // latest hop of samples
+  onsetTime: number | null  // audio time of the beat (kick) attack, seconds
+  kick: number              // drum envelopes, 0-1
+  snare: number
+  hat: number
+  kickOnset: boolean
+  snareOnset: boolean
+  hatOnset: boolean
+  estimatedBPM: number
+  tempoConfidence: number   // 0-1
+  section: SongSection
+  sectionConfidence: number // 0-1
+  dropOnset: boolean
+  chroma: Float32Array      // 0-1 per pitch class
+  key: number | null        // tonic pitch class, null until estimated
+  keyMode: KeyMode
+  keyConfidence: number     // 0-1
+}
+
+// Spectrum, band energies and onsets for fixed-size hops of mono audio.
+// Plain math with no Web Audio dependencies so it can run inside the worklet.
+export class FrameAnalyzer {
+  private sampleRate: number
+  private frameRate: number
+  private fftSize: FFTSize = 512
+  private fft!: FFT
+  private window!: Float32Array
+  private frame: Float32Array = new Float32Array(0)
+  private windowed!: Float32Array
+  private magnitudes!: Float32Array
+  private smoothedMagnitudes!: Float32Array
+  private bandSpectrum!: BandSpectrum
+
+  // Bins where the mid and high bands start
+  private lowCrossover: number = 250
+  private highCrossover: number = 4000
+  private midStart: number = 1
+  private highStart: number = 1
+
+  // Recent samples for locating the exact onset position
+  private history: Float32Array = new Float32Array(ONSET_SEARCH_SIZE)
+
+  private beatDetector: BeatDetector
+  private spectralFeatures!: SpectralFeatures
+  private structureDetector: StructureDetector
+  private chromagram: Chromagram
+  private keyEstimator: KeyEstimator
+  private keyState: KeyState = { key: null, mode: 'major', confidence: 0 }
+  private sensitivity: number = 0.5
+  private smoothing: number = 0.8
+
+  private energy: number = 0
+  private bass: number = 0
+  private mid: number = 0
+  private high: number = 0
+  private timbre: TimbreFeatures = {
+    centroid: 0,
+    rolloff: 0,
+    flatness: 0,
+    flux: 0,
+    zcr: 0,
+    loudness: 0
+  }
+
+  constructor(sampleRate: number, settings: AnalysisSettings) {
+    this.sampleRate = sampleRate
+    this.frameRate = sampleRate / HOP_SIZE
+    this.beatDetector = new BeatDetector(sampleRate, this.frameRate)
+    this.structureDetector = new StructureDetector(sampleRate, this.frameRate)
+    this.chromagram = new Chromagram(sampleRate, this.frameRate)
+    this.keyEstimator = new KeyEstimator(this.chromagram.frameRate)
+    this.setFFTSize(settings.fftSize)
+    this.configure(settings)
+  }
+
+  // Rebuild everything sized by the FFT; the spectrum history starts over
+  private setFFTSize(size: FFTSize): void {
+    this.fftSize = size
+    this.fft = new FFT(size)
+
+    // Keep the most recent samples so the next frame is not mostly silence
+    const frame = new Float32Array(size)
+    const kept = Math.min(size, this.frame.length)
+    frame.set(this.frame.subarray(this.frame.length - kept), size - kept)
+    this.frame = frame
+
+    this.windowed = new Float32Array(size)
+    this.magnitudes = new Float32Array(size / 2)
+    this.smoothedMagnitudes = new Float32Array(size / 2)
+    this.bandSpectrum = new BandSpectrum(this.sampleRate, size)
+    this.spectralFeatures = new SpectralFeatures(this.sampleRate, size, this.frameRate)
+
+    // Blackman window, matching the AnalyserNode
+    this.window = new Float32Array(size)
+    for (let i = 0; i < size; i++) {
+      const x = (2 * Math.PI * i) / size
+      this.window[i] = 0.42 - 0.5 * Math.cos(x) + 0.08 * Math.cos(2 * x)
+    }
+
+    this.updateCrossoverBins()
+  }
+
+  // Every band keeps at least one bin, and the DC bin is left out of the bass
+  private updateCrossoverBins(): void {
+    const binCount = this.fftSize / 2
+    const binWidth = this.sampleRate / this.fftSize
+    this.midStart = clamp(Math.round(this.lowCrossover / binWidth), 2, binCount - 2)
+    this.highStart = clamp(Math.round(this.highCrossover / binWidth), this.midStart + 1, binCount - 1)
+  }
+
+  configure(settings: Partial<AnalysisSettings>): void {
+    if (settings.sensitivity !== undefined) {
+      this.sensitivity = clamp(settings.sensitivity, 0, 1)
+      this.beatDetector.setSensitivity(settings.sensitivity)
+    }
+    if (settings.smoothing !== undefined) {
+      this.smoothing = clamp(settings.smoothing, 0, 0.99)
+    }
+    if (settings.fftSize !== undefined && settings.fftSize !== this.fftSize &&
+        fftSizes.includes(settings.fftSize)) {
+      this.setFFTSize(settings.fftSize)
+    }
+    if (settings.lowCrossover !== undefined || settings.highCrossover !== undefined) {
+      this.lowCrossover = settings.lowCrossover ?? this.lowCrossover
+      this.highCrossover = settings.highCrossover ?? this.highCrossover
+      this.updateCrossoverBins()
+    }
+    if (settings.bpmLocked === true) {
+      this.beatDetector.lockBPM(settings.lockedBPM)
+    } else if (settings.bpmLocked === false) {
+      this.beatDetector.unlockBPM()
+    }
+  }
+
+  // Analyse one hop of new samples; startSample is the index of hop[0] in the stream
+  process(hop: Float32Array, startSample: number): AnalysisFrame {
+    const endTime = (startSample + hop.length) / this.sampleRate
+
+    // Slide the analysis window and the onset history along
+    this.frame.copyWithin(0, hop.length)
+    this.frame.set(hop, this.fftSize - hop.length)
+    this.history.copyWithin(0, hop.length)
+    this.history.set(hop, ONSET_SEARCH_SIZE - hop.length)
+
+    for (let i = 0; i < this.fftSize; i++) {
+      this.windowed[i] = this.frame[i] * this.window[i]
+    }
+    this.fft.magnitudes(this.windowed, this.magnitudes)
+
+    // Smooth magnitudes and normalize from dB (-100 to 0) to 0-1
+    const binCount = this.magnitudes.length
+    const spectrum = new Float32Array(binCount)
+    for (let i = 0; i < binCount; i++) {
+      this.smoothedMagnitudes[i] = this.smoothedMagnitudes[i] * SPECTRUM_SMOOTHING +
+        this.magnitudes[i] * (1 - SPECTRUM_SMOOTHING)
+      const db = 20 * Math.log10(this.smoothedMagnitudes[i] + 1e-10)
+      spectrum[i] = clamp((db - MIN_DECIBELS) / -MIN_DECIBELS, 0, 1)
+    }
+
+    // Calculate energy bands, split at the crossover frequencies
+    let bassEnergy = 0
+    let midEnergy = 0
+    let highEnergy = 0
+    let highPower = 0 // linear, for the song structure
+
+    for (let i = 1; i < binCount; i++) {
+      const val = spectrum[i]
+
+      if (i < this.midStart) {
+        bassEnergy += val
+      } else if (i < this.highStart) {
+        midEnergy += val
+      } else {
+        highEnergy += val
+        highPower += this.magnitudes[i] * this.magnitudes[i]
+      }
+    }
+
+    // Normalize by band size
+    bassEnergy = bassEnergy / (this.midStart - 1)
+    midEnergy = midEnergy / (this.highStart - this.midStart)
+    highEnergy = highEnergy / (binCount - this.highStart)
+
+    // Calculate RMS and peak from the new samples
+    let rms = 0
+    let peak = 0
+    for (let i = 0; i < hop.length; i++) {
+      rms += hop[i] * hop[i]
+      peak = Math.max(peak, Math.abs(hop[i]))
+    }
+    rms = Math.sqrt(rms / hop.length)
+
+    // Apply sensitivity
+    const sensitivityMult = 0.5 + this.sensitivity * 1.5
+    bassEnergy = clamp(bassEnergy * sensitivityMult, 0, 1)
+    midEnergy = clamp(midEnergy * sensitivityMult, 0, 1)
+    highEnergy = clamp(highEnergy * sensitivityMult, 0, 1)
+    const totalEnergy = clamp(rms * sensitivityMult * 3, 0, 1)
+
+    // Smooth the values
+    const smoothing = rescaleSmoothing(this.smoothing, REFERENCE_FRAME_RATE, this.frameRate)
+    this.bass = this.bass * smoothing + bassEnergy * (1 - smoothing)
+    this.mid = this.mid * smoothing + midEnergy * (1 - smoothing)
+    this.high = this.high * smoothing + highEnergy * (1 - smoothing)
+    this.energy = this.energy * smoothing + totalEnergy * (1 - smoothing)
+
+    const timbre = this.spectralFeatures.process(this.magnitudes, hop)
+    for (const key of Object.keys(timbre) as (keyof TimbreFeatures)[]) {
+      this.timbre[key] = this.timbre[key] * smoothing + timbre[key] * (1 - smoothing)
+    }
+
+    const structure = this.structureDetector.process(hop, highPower)
+
+    // Chroma comes from its own longer FFT, a few times less often than the hop rate
+    if (this.chromagram.process(hop)) {
+      this.keyState = this.keyEstimator.process(this.chromagram.getFrame())
+    }
+
+    // Detect drum hits; kicks are the beats
+    const onsets = this.beatDetector.detect(this.history.subarray(ONSET_SEARCH_SIZE - ONSET_FFT_SIZE), endTime * 1000)
+
+    return {
+      time: endTime,
+      energy: this.energy,
+      bass: this.bass,
+      mid: this.mid,
+      high: this.high,
+      ...this.timbre,
+      rms,
+      peak,
+      spectrum,
+      bands: this.bandSpectrum.process(spectrum),
+      waveform: hop.slice(),
+      onsetTime: onsets.kick ? this.locateOnset(startSample + hop.length) : null,
+      kick: this.beatDetector.getEnvelope('kick'),
+      snare: this.beatDetector.getEnvelope('snare'),
+      hat: this.beatDetector.getEnvelope('hat'),
+      kickOnset: onsets.kick,
+      snareOnset: onsets.snare,
+      hatOnset: onsets.hat,
+      estimatedBPM: this.beatDetector.getEstimatedBPM(),
+      tempoConfidence: this.beatDetector.getConfidence(),
+      section: structure.section,
+      sectionConfidence: structure.confidence,
+      dropOnset: structure.dropOnset,
+      chroma: this.chromagram.getChroma(),
+      key: this.keyState.key,
+      keyMode: this.keyState.mode,
+      keyConfidence: this.keyState.confidence
+    }
+  }
+
+  // The detector only knows which frame an onset landed in and, being smoothed,
+  // usually fires a frame or two late. Look back through the recent signal for
+  // the first block whose energy jumps close to the largest jump there.
+  private locateOnset(endSample: number): number {
+    const blockCount = ONSET_SEARCH_SIZE / ONSET_BLOCK_SIZE
+    const rises = new Float32Array(blockCount)
+    let previousEnergy = Infinity
+    let maxRise = 0
+
+    for (let block = 0; block < blockCount; block++) {
+      let energy = 0
+      for (let i = block * ONSET_BLOCK_SIZE; i < (block + 1) * ONSET_BLOCK_SIZE; i++) {
+        energy += this.history[i] * this.history[i]
+      }
+
+      rises[block] = energy - previousEnergy
+      maxRise = Math.max(maxRise, rises[block])
+      previousEnergy = energy
+    }
+
+    let bestBlock = blockCount - 1
+    for (let block = 0; block < blockCount; block++) {
+      if (maxRise > 0 && rises[block] >= maxRise * ONSET_RISE_RATIO) {
+        bestBlock = block
+        break
+      }
+    }
+
+    const onsetSample = endSample - ONSET_SEARCH_SIZE + bestBlock * ONSET_BLOCK_SIZE
+    return onsetSample / this.sampleRate
+  }
+}
@@ -0,0 +1,139 @@
+import { KeyMode } from '../scenes/types'
+import { PITCH_CLASS_COUNT } from './Chromagram'
+import { clamp } from '../utils/math'
+
+export const pitchClassLabels = ['C', 'C♯', 'D', 'E♭', 'E', 'F', 'F♯', 'G', 'A♭', 'A', 'B♭', 'B']
+
+export const keyModeLabels: Record<KeyMode, string> = {
+  major: 'major',
+  minor: 'minor'
+}
+
+export function keyLabel(key: number, mode: KeyMode): string {
+  return `${pitchClassLabels[key]} ${keyModeLabels[mode]}`
+}
+
+export interface KeyState {
+  key: number | null  // pitch class of the tonic, 0 = C; null until estimated
+  mode: KeyMode
+  confidence: number  // 0-1
+}
+
+// Krumhansl-Kessler key profiles, starting from the tonic
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88]
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17]
+
+const KEY_TIME = 30          // seconds of chroma the estimate averages over
+const WARMUP_TIME = 8        // seconds of music before a first estimate
+const KEY_HOLD = 8           // seconds a new key has to keep winning before it is taken
+const KEY_MARGIN = 0.05      // correlation a new key needs over the current one
+const MIN_CORRELATION = 0.5  // weaker matches are not a key at all
+
+// Profiles with their mean removed, so matching is a plain dot product
+function centerProfile(profile: number[]): Float32Array {
+  const mean = profile.reduce((sum, value) => sum + value, 0) / profile.length
+  const centered = Float32Array.from(profile, value => value - mean)
+  const norm = Math.sqrt(centered.reduce((sum, value) => sum + value * value, 0))
+  return centered.map(value => value / norm)
+}
+
+const profiles: Record<KeyMode, Float32Array> = {
+  major: centerProfile(MAJOR_PROFILE),
+  minor: centerProfile(MINOR_PROFILE)
+}
+
+// Key and mode from the correlation of long-term chroma with the 24 key
+// profiles. A new key has to win for a while before it replaces the old one,
+// so passing chords don't read as modulations.
+export class KeyEstimator {
+  private frameDuration: number
+  private coefficient: number
+  private average: Float32Array = new Float32Array(PITCH_CLASS_COUNT)
+  private time: number = 0
+  private state: KeyState = { key: null, mode: 'major', confidence: 0 }
+  private candidate: KeyState | null = null
+  private candidateSince: number = 0
+
+  constructor(chromaRate: number) {
+    this.frameDuration = 1 / chromaRate
+    this.coefficient = Math.exp(-1 / (KEY_TIME * chromaRate))
+  }
+
+  // `chroma` is one frame summing to 1
+  process(chroma: Float32Array): KeyState {
+    this.time += this.frameDuration
+    const coefficient = this.coefficient
+    for (let i = 0; i < PITCH_CLASS_COUNT; i++) {
+      this.average[i] = this.average[i] * coefficient + chroma[i] * (1 - coefficient)
+    }
+
+    let best: KeyState = { key: 0, mode: 'major', confidence: 0 }
+    let bestCorrelation = -Infinity
+    let currentCorrelation = 0
+    for (const mode of ['major', 'minor'] as KeyMode[]) {
+      for (let key = 0; key < PITCH_CLASS_COUNT; key++) {
+        const correlation = this.correlate(profiles[mode], key)
+        if (correlation > bestCorrelation) {
+          bestCorrelation = correlation
+          best = { key, mode, confidence: 0 }
+        }
+        if (key === this.state.key && mode === this.state.mode) {
+          currentCorrelation = correlation
+        }
+      }
+    }
+
+    const isCurrent = best.key === this.state.key && best.mode === this.state.mode
+    const isBetter = this.state.key === null || bestCorrelation - currentCorrelation >= KEY_MARGIN
+    if (isCurrent || !isBetter || bestCorrelation < MIN_CORRELATION) {
+      this.candidate = null
+    } else if (this.candidate === null || this.candidate.key !== best.key || this.candidate.mode !== best.mode) {
+      this.candidate = best
+      this.candidateSince = this.time
+    }
+
+    // The first key is taken once there is enough music; later ones must hold
+    if (this.candidate !== null && this.time >= WARMUP_TIME &&
+        (this.state.key === null || this.time - this.candidateSince >= KEY_HOLD)) {
+      this.state = { ...this.candidate }
+      this.candidate = null
+      currentCorrelation = bestCorrelation
+    }
+
+    this.state.confidence = this.state.key === null
+      ? 0
+      : clamp((currentCorrelation - MIN_CORRELATION) / (1 - MIN_CORRELATION), 0, 1)
+
+    return { ...this.state }
+  }
+
+  // Pearson correlation of the average chroma with a profile rotated to `key`
+  private correlate(profile: Float32Array, key: number): number {
+    let mean = 0
+    for (let i = 0; i < PITCH_CLASS_COUNT; i++) {
+      mean += this.average[i]
+    }
+    mean /= PITCH_CLASS_COUNT
+
+    let dot = 0
+    let norm = 0
+    for (let i = 0; i < PITCH_CLASS_COUNT; i++) {
+      const value = this.average[i] - mean
+      dot += value * profile[(i - key + PITCH_CLASS_COUNT) % PITCH_CLASS_COUNT]
+      norm += value * value
+    }
+
+    return norm > 0 ? dot / Math.sqrt(norm) : 0
+  }
+
+  getState(): KeyState {
+    return { ...this.state }
+  }
+
+  reset(): void {
+    this.average.fill(0)
+    this.time = 0
+    this.state = { key: null, mode: 'major', confidence: 0 }
+    this.candidate = null
+  }
+}
@@ -0,0 +1,192 @@
+import { FFT } from './FFT'
+import { clamp } from '../utils/math'
+
+export type DrumBand = 'kick' | 'snare' | 'hat'
+
+export const drumBands: DrumBand[] = ['kick', 'snare', 'hat']
+
+export type DrumOnsets = Record<DrumBand, boolean>
+
+interface BandConfig {
+  low: number         // Hz
+  high: number        // Hz
+  minInterval: number // ms between onsets
+  peakRatio: number   // share of the band's recent peak flux an onset must reach
+  tempoWeight: number // contribution to the onset strength used for tempo
+  decay: number       // envelope decay per second
+}
+
+const bandConfigs: Record<DrumBand, BandConfig> = {
+  // The kick dominates the low end, so basslines sit well under its peak
+  kick: { low: 30, high: 150, minInterval: 200, peakRatio: 0.7, tempoWeight: 1, decay: 8 },
+  // Snare crack and claps
+  snare: { low: 1000, high: 4000, minInterval: 120, peakRatio: 0.5, tempoWeight: 0.6, decay: 10 },
+  // Open and closed hats vary a lot in level
+  hat: { low: 6000, high: 16000, minInterval: 60, peakRatio: 0.3, tempoWeight: 0.3, decay: 16 }
+}
+
+export const ONSET_FFT_SIZE = 1024
+
+const THRESHOLD_WINDOW = 0.5  // seconds of flux history per adaptive threshold
+const FLUX_LAG = 2            // frames back to compare against; favours hits that keep rising
+const MIN_FLUX = 0.0001        // keeps silence and noise floors from triggering
+const PEAK_DECAY = 0.5        // peak flux decay per second
+
+interface BandState {
+  startBin: number
+  endBin: number
+  history: number[]
+  historySize: number
+  lastOnsetTime: number
+  flux: number
+  peakFlux: number
+  envelope: number
+}
+
+// Spectral-flux onset detector with separate kick, snare/clap and hi-hat bands.
+// Each band sums the rise in log magnitude across its bins and fires when that
+// flux clears its own adaptive threshold, so busy hats can't fake a kick.
+export class OnsetDetector {
+  private frameRate: number
+  private sensitivity: number = 0.5
+  private fft: FFT
+  private window: Float32Array
+  private windowed: Float32Array = new Float32Array(ONSET_FFT_SIZE)
+  private magnitudes: Float32Array = new Float32Array(ONSET_FFT_SIZE / 2)
+  private previous: Float32Array[] = []  // oldest first, FLUX_LAG frames
+  private bands: Record<DrumBand, BandState>
+  private strength: number = 0
+
+  constructor(sampleRate: number, frameRate: number) {
+    this.frameRate = frameRate
+    this.fft = new FFT(ONSET_FFT_SIZE)
+
+    // Hann window
+    this.window = new Float32Array(ONSET_FFT_SIZE)
+    for (let i = 0; i < ONSET_FFT_SIZE; i++) {
+      this.window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / ONSET_FFT_SIZE)
+    }
+
+    for (let i = 0; i < FLUX_LAG; i++) {
+      this.previous.push(new Float32Array(ONSET_FFT_SIZE / 2))
+    }
+
+    const binWidth = sampleRate / ONSET_FFT_SIZE
+    const maxBin = ONSET_FFT_SIZE / 2
+    const createBand = ({ low, high }: BandConfig): BandState => ({
+      startBin: clamp(Math.floor(low / binWidth), 1, maxBin - 1),
+      endBin: clamp(Math.ceil(high / binWidth), 2, maxBin),
+      history: [],
+      historySize: Math.round(THRESHOLD_WINDOW * frameRate),
+      lastOnsetTime: -Infinity,
+      flux: 0,
+      peakFlux: 0,
+      envelope: 0
+    })
+
+    this.bands = {
+      kick: createBand(bandConfigs.kick),
+      snare: createBand(bandConfigs.snare),
+      hat: createBand(bandConfigs.hat)
+    }
+  }
+
+  setSensitivity(value: number): void {
+    this.sensitivity = clamp(value, 0, 1)
+  }
+
+  // `samples` holds the latest ONSET_FFT_SIZE samples, ending at `now` (ms)
+  process(samples: Float32Array, now: number): DrumOnsets {
+    for (let i = 0; i < ONSET_FFT_SIZE; i++) {
+      this.windowed[i] = samples[i] * this.window[i]
+    }
+    this.fft.magnitudes(this.windowed, this.magnitudes)
+
+    const onsets: DrumOnsets = { kick: false, snare: false, hat: false }
+    this.strength = 0
+    for (const band of drumBands) {
+      onsets[band] = this.processBand(band, now)
+
+      const state = this.bands[band]
+      if (state.peakFlux > 0) {
+        this.strength += (state.flux / state.peakFlux) * bandConfigs[band].tempoWeight
+      }
+    }
+
+    // Recycle the oldest frame for the current magnitudes
+    const oldest = this.previous.shift()!
+    oldest.set(this.magnitudes)
+    this.previous.push(oldest)
+
+    return onsets
+  }
+
+  private processBand(band: DrumBand, now: number): boolean {
+    const state = this.bands[band]
+    const config = bandConfigs[band]
+
+    // Half-wave rectified spectral flux, averaged over the band
+    const previous = this.previous[0]
+    let flux = 0
+    for (let i = state.startBin; i < state.endBin; i++) {
+      flux += Math.max(0, this.magnitudes[i] - previous[i])
+    }
+    flux /= state.endBin - state.startBin
+    state.flux = flux
+
+    // Weaker hits in the same band (e.g. a rolling bassline under the kick)
+    // stay under a share of the strongest recent hit, which decays slowly
+    state.peakFlux = Math.max(flux, state.peakFlux * Math.exp(-PEAK_DECAY / this.frameRate))
+
+    // Threshold from the band's recent flux, before adding the current frame
+    let isOnset = false
+    if (state.history.length >= state.historySize / 2) {
+      const mean = state.history.reduce((a, b) => a + b, 0) / state.history.length
+      const variance = state.history.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / state.history.length
+      const threshold = Math.max(
+        mean + Math.sqrt(variance) * (2.5 - this.sensitivity * 2),
+        state.peakFlux * config.peakRatio * (1.5 - this.sensitivity),
+        MIN_FLUX
+      )
+
+      isOnset = flux > threshold && now - state.lastOnsetTime > config.minInterval
+    }
+
+    state.history.push(flux)
+    if (state.history.length > state.historySize) {
+      state.history.shift()
+    }
+
+    if (isOnset) {
+      state.lastOnsetTime = now
+      state.envelope = 1
+    } else {
+      state.envelope *= Math.exp(-config.decay / this.frameRate)
+    }
+
+    return isOnset
+  }
+
+  // Weighted flux of all bands, each relative to its recent peak
+  getStrength(): number {
+    return this.strength
+  }
+
+  // 0-1, jumps to 1 on an onset and decays
+  getEnvelope(band: DrumBand): number {
+    return this.bands[band].envelope
+  }
+
+  reset(): void {
+    this.previous.forEach(frame => frame.fill(0))
+    for (const band of drumBands) {
+      const state = this.bands[band]
+      state.history = []
+      state.lastOnsetTime = -Infinity
+      state.flux = 0
+      state.peakFlux = 0
+      state.envelope = 0
+    }
+    this.strength = 0
+  }
+}
@@ -0,0 +1,126 @@
+import { AudioFeatures } from '../scenes/types'
+import { AdaptiveRange } from './AdaptiveRange'
+
+export type TimbreFeatures = Pick<
+  AudioFeatures,
+  'centroid' | 'rolloff' | 'flatness' | 'flux' | 'zcr' | 'loudness'
+>
+
+const ROLLOFF_SHARE = 0.85     // share of spectral energy below the rolloff frequency
+const LOUDNESS_WINDOW = 0.4    // seconds, like EBU momentary loudness
+const RANGE_TIME = 10          // seconds for adaptive ranges to forget old extremes
+const SILENCE_LEVEL = -70      // dB; below this everything reads 0 and ranges hold still
+
+const silentFeatures: TimbreFeatures = {
+  centroid: 0,
+  rolloff: 0,
+  flatness: 0,
+  flux: 0,
+  zcr: 0,
+  loudness: 0
+}
+
+// Timbre descriptors for one analysis frame, each mapped to 0-1 by its own adaptive range
+export class SpectralFeatures {
+  private sampleRate: number
+  private fftSize: number
+  private previous: Float32Array
+  private loudnessFrames: Float32Array
+  private loudnessIndex: number = 0
+
+  private centroidRange: AdaptiveRange
+  private rolloffRange: AdaptiveRange
+  private flatnessRange: AdaptiveRange
+  private fluxRange: AdaptiveRange
+  private zcrRange: AdaptiveRange
+  private loudnessRange: AdaptiveRange
+
+  constructor(sampleRate: number, fftSize: number, frameRate: number) {
+    this.sampleRate = sampleRate
+    this.fftSize = fftSize
+    this.previous = new Float32Array(fftSize / 2)
+    this.loudnessFrames = new Float32Array(Math.max(1, Math.round(LOUDNESS_WINDOW * frameRate)))
+
+    // Frequencies are compared in octaves, loudness in dB
+    this.centroidRange = new AdaptiveRange(RANGE_TIME, frameRate, 1)
+    this.rolloffRange = new AdaptiveRange(RANGE_TIME, frameRate, 1)
+    this.flatnessRange = new AdaptiveRange(RANGE_TIME, frameRate, 0.05)
+    this.fluxRange = new AdaptiveRange(RANGE_TIME, frameRate, 1e-4)
+    this.zcrRange = new AdaptiveRange(RANGE_TIME, frameRate, 0.02)
+    this.loudnessRange = new AdaptiveRange(RANGE_TIME, frameRate, 12)
+  }
+
+  // `magnitudes` are linear FFT magnitudes, `hop` the new time-domain samples
+  process(magnitudes: Float32Array, hop: Float32Array): TimbreFeatures {
+    const binWidth = this.sampleRate / this.fftSize
+
+    let magnitudeSum = 0
+    let weightedSum = 0
+    let powerSum = 0
+    let logPowerSum = 0
+    let flux = 0
+
+    // Skip the DC bin
+    for (let i = 1; i < magnitudes.length; i++) {
+      const magnitude = magnitudes[i]
+      const power = magnitude * magnitude
+
+      magnitudeSum += magnitude
+      weightedSum += magnitude * i * binWidth
+      powerSum += power
+      logPowerSum += Math.log(power + 1e-12)
+      flux += Math.max(0, magnitude - this.previous[i])
+    }
+    this.previous.set(magnitudes)
+
+    const binCount = magnitudes.length - 1
+    const centroid = magnitudeSum > 0 ? weightedSum / magnitudeSum : 0
+
+    let rolloff = 0
+    let cumulative = 0
+    for (let i = 1; i < magnitudes.length; i++) {
+      cumulative += magnitudes[i] * magnitudes[i]
+      if (cumulative >= powerSum * ROLLOFF_SHARE) {
+        rolloff = i * binWidth
+        break
+      }
+    }
+
+    // Geometric over arithmetic mean of the power spectrum: 1 = noise, 0 = pure tone
+    const flatness = powerSum > 0
+      ? Math.exp(logPowerSum / binCount) / (powerSum / binCount)
+      : 0
+
+    let crossings = 0
+    let meanSquare = 0
+    for (let i = 0; i < hop.length; i++) {
+      meanSquare += hop[i] * hop[i]
+      if (i > 0 && (hop[i] >= 0) !== (hop[i - 1] >= 0)) {
+        crossings++
+      }
+    }
+    meanSquare /= hop.length
+
+    this.loudnessFrames[this.loudnessIndex] = meanSquare
+    this.loudnessIndex = (this.loudnessIndex + 1) % this.loudnessFrames.length
+    let loudnessPower = 0
+    for (let i = 0; i < this.loudnessFrames.length; i++) {
+      loudnessPower += this.loudnessFrames[i]
+    }
+    loudnessPower /= this.loudnessFrames.length
+
+    const loudness = 10 * Math.log10(loudnessPower + 1e-10)
+    if (loudness < SILENCE_LEVEL) {
+      return { ...silentFeatures }
+    }
+
+    return {
+      centroid: this.centroidRange.normalize(Math.log2(Math.max(centroid, binWidth))),
+      rolloff: this.rolloffRange.normalize(Math.log2(Math.max(rolloff, binWidth))),
+      flatness: this.flatnessRange.normalize(flatness),
+      flux: this.fluxRange.normalize(flux),
+      zcr: this.zcrRange.normalize(crossings / hop.length),
+      loudness: this.loudnessRange.normalize(loudness)
+    }
+  }
+}
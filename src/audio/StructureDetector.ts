@@ -0,0 +1,270 @@
+import { SongSection } from '../scenes/types'
+import { clamp } from '../utils/math'
+
+export const sectionLabels: Record<SongSection, string> = {
+  groove: 'Groove',
+  breakdown: 'Breakdown',
+  buildup: 'Build-up',
+  drop: 'Drop'
+}
+
+export interface StructureState {
+  section: SongSection
+  confidence: number  // 0-1
+  dropOnset: boolean  // true on the frame a drop lands
+}
+
+// Kick and bassline live below this; pads and chords mostly don't
+const SUB_BASS_CUTOFF = 120 // Hz
+
+// Averaging times, seconds
+const FAST_TIME = 0.1
+const SHORT_TIME = 0.5
+const LONG_TIME = 20
+
+const WARMUP_TIME = 8       // seconds of music before anything but groove is reported
+const SILENCE_LEVEL = -70   // dB
+
+// Breakdown: the bass share of the mix falls well below its long-term level
+const BREAKDOWN_DEPTH = 8   // dB
+const BREAKDOWN_TIME = 2    // seconds it has to stay down
+// Drop: the bass comes back after a long enough breakdown or build-up
+const DROP_RETURN = 3       // dB below the long-term level that counts as back
+const MIN_TENSION_TIME = 4  // seconds
+const DROP_HOLD = 8         // seconds the drop section lasts
+// Build-up: highs or overall loudness keep rising during a breakdown
+const TREND_WINDOW = 4      // seconds
+const BUILDUP_SLOPE = 1     // dB per second
+
+function toDecibels(power: number): number {
+  return 10 * Math.log10(power + 1e-12)
+}
+
+// Song structure from long-term trends. Dance tracks mostly take the kick
+// and bass out for a breakdown, raise the highs and loudness into a build-up
+// and bring the bass back at once on the drop, so this follows how much of the
+// mix is bass compared to its usual share.
+export class StructureDetector {
+  private frameDuration: number
+  // Two cascaded biquad lowpasses (4th order) isolating the sub-bass
+  private filter: { b0: number, b1: number, b2: number, a1: number, a2: number }
+  private filterState: Float64Array = new Float64Array(8)
+  private fastCoefficient: number
+  private shortCoefficient: number
+  private longCoefficient: number
+
+  private fastBass: number = 0
+  private fastTotal: number = 0
+  private shortBass: number = 0
+  private shortTotal: number = 0
+  private shortHigh: number = 0
+  private longBassShare: number | null = null // dB
+
+  // Recent high and total levels for the build-up trend
+  private highHistory: Float32Array
+  private totalHistory: Float32Array
+  private historyIndex: number = 0
+  private historyFilled: number = 0
+
+  private time: number = 0           // seconds of non-silent audio
+  private section: SongSection = 'groove'
+  private sectionStart: number = 0
+  private lowSince: number | null = null
+  private tensionStart: number = 0
+  private tensionLowest: number = 0  // lowest bass share during the breakdown, dB
+  private dropConfidence: number = 0
+
+  constructor(sampleRate: number, frameRate: number) {
+    this.frameDuration = 1 / frameRate
+
+    // RBJ cookbook lowpass, Butterworth Q
+    const w = (2 * Math.PI * SUB_BASS_CUTOFF) / sampleRate
+    const alpha = Math.sin(w) / (2 * Math.SQRT1_2)
+    const a0 = 1 + alpha
+    const cos = Math.cos(w)
+    this.filter = {
+      b0: (1 - cos) / 2 / a0,
+      b1: (1 - cos) / a0,
+      b2: (1 - cos) / 2 / a0,
+      a1: (-2 * cos) / a0,
+      a2: (1 - alpha) / a0
+    }
+    this.fastCoefficient = Math.exp(-1 / (FAST_TIME * frameRate))
+    this.shortCoefficient = Math.exp(-1 / (SHORT_TIME * frameRate))
+    this.longCoefficient = Math.exp(-1 / (LONG_TIME * frameRate))
+
+    const historyLength = Math.round(TREND_WINDOW * frameRate)
+    this.highHistory = new Float32Array(historyLength)
+    this.totalHistory = new Float32Array(historyLength)
+  }
+
+  // `hop` is the frame's new samples, `highPower` the linear power of the high band
+  process(hop: Float32Array, highPower: number): StructureState {
+    let bassPower = 0
+    let totalPower = 0
+    for (let i = 0; i < hop.length; i++) {
+      const bass = this.lowpass(this.lowpass(hop[i], 0), 4)
+      bassPower += bass * bass
+      totalPower += hop[i] * hop[i]
+    }
+    bassPower /= hop.length
+    totalPower /= hop.length
+
+    const fast = this.fastCoefficient
+    const short = this.shortCoefficient
+    this.fastBass = this.fastBass * fast + bassPower * (1 - fast)
+    this.fastTotal = this.fastTotal * fast + totalPower * (1 - fast)
+    this.shortBass = this.shortBass * short + bassPower * (1 - short)
+    this.shortTotal = this.shortTotal * short + totalPower * (1 - short)
+    this.shortHigh = this.shortHigh * short + highPower * (1 - short)
+
+    const totalLevel = toDecibels(this.shortTotal)
+    // Sections are meaningless in silence; keep everything where it was
+    if (totalLevel < SILENCE_LEVEL) {
+      return { section: this.section, confidence: 0, dropOnset: false }
+    }
+    this.time += this.frameDuration
+
+    const shortShare = toDecibels(this.shortBass) - totalLevel
+    const fastShare = toDecibels(this.fastBass) - toDecibels(this.fastTotal)
+
+    this.highHistory[this.historyIndex] = toDecibels(this.shortHigh)
+    this.totalHistory[this.historyIndex] = totalLevel
+    this.historyIndex = (this.historyIndex + 1) % this.highHistory.length
+    this.historyFilled = Math.min(this.historyFilled + 1, this.highHistory.length)
+
+    // The reference only learns from full sections, not from breakdowns
+    if (this.longBassShare === null) {
+      this.longBassShare = shortShare
+    } else if (this.section === 'groove' || this.section === 'drop') {
+      const long = this.longCoefficient
+      this.longBassShare = this.longBassShare * long + shortShare * (1 - long)
+    }
+
+    const deficit = this.longBassShare - shortShare
+    let dropOnset = false
+    let slope = 0
+    let confidence = 0
+
+    if (this.section === 'groove' || this.section === 'drop') {
+      if (this.section === 'drop' && this.time - this.sectionStart >= DROP_HOLD) {
+        this.setSection('groove')
+      }
+
+      if (this.time >= WARMUP_TIME && deficit > BREAKDOWN_DEPTH) {
+        if (this.lowSince === null) {
+          this.lowSince = this.time
+        }
+        if (this.time - this.lowSince >= BREAKDOWN_TIME) {
+          this.setSection('breakdown')
+          this.sectionStart = this.lowSince
+          this.tensionStart = this.lowSince
+          this.tensionLowest = shortShare
+        }
+      } else {
+        this.lowSince = null
+      }
+    } else {
+      this.tensionLowest = Math.min(this.tensionLowest, shortShare)
+
+      if (this.longBassShare - fastShare < DROP_RETURN) {
+        // Bass is back: a drop after a real breakdown, otherwise just a gap
+        if (this.time - this.tensionStart >= MIN_TENSION_TIME) {
+          // Bigger contrast after a longer wait makes for a surer drop
+          const contrast = clamp((fastShare - this.tensionLowest) / (BREAKDOWN_DEPTH * 3), 0, 1)
+          const tension = clamp((this.time - this.tensionStart) / (MIN_TENSION_TIME * 2), 0, 1)
+          this.dropConfidence = contrast * (0.5 + tension * 0.5)
+          this.setSection('drop')
+          dropOnset = true
+        } else {
+          this.setSection('groove')
+        }
+        this.lowSince = null
+      } else {
+        slope = Math.max(this.trend(this.highHistory), this.trend(this.totalHistory))
+        if (this.section === 'breakdown' && slope > BUILDUP_SLOPE) {
+          this.setSection('buildup')
+        } else if (this.section === 'buildup' && slope < 0) {
+          this.setSection('breakdown')
+        }
+      }
+    }
+
+    switch (this.section) {
+      case 'groove':
+        confidence = this.time >= WARMUP_TIME ? clamp(1 - Math.max(0, deficit) / BREAKDOWN_DEPTH, 0, 1) : 0
+        break
+      case 'breakdown':
+        confidence = clamp(deficit / (BREAKDOWN_DEPTH * 2), 0, 1)
+        break
+      case 'buildup':
+        confidence = clamp(slope / (BUILDUP_SLOPE * 3), 0, 1)
+        break
+      case 'drop':
+        confidence = this.dropConfidence
+        break
+    }
+
+    return { section: this.section, confidence, dropOnset }
+  }
+
+  // One biquad stage; `offset` picks its state in filterState
+  private lowpass(x: number, offset: number): number {
+    const { b0, b1, b2, a1, a2 } = this.filter
+    const state = this.filterState
+    const y = b0 * x + b1 * state[offset] + b2 * state[offset + 1] -
+      a1 * state[offset + 2] - a2 * state[offset + 3]
+    state[offset + 1] = state[offset]
+    state[offset] = x
+    state[offset + 3] = state[offset + 2]
+    state[offset + 2] = y
+    return y
+  }
+
+  private setSection(section: SongSection): void {
+    this.section = section
+    this.sectionStart = this.time
+  }
+
+  // Least-squares slope of a level history in dB per second
+  private trend(history: Float32Array): number {
+    const n = this.historyFilled
+    if (n < history.length) return 0
+
+    let sumX = 0
+    let sumY = 0
+    let sumXY = 0
+    let sumXX = 0
+    for (let i = 0; i < n; i++) {
+      const x = i * this.frameDuration
+      const y = history[(this.historyIndex + i) % n]
+      sumX += x
+      sumY += y
+      sumXY += x * y
+      sumXX += x * x
+    }
+
+    return (n * sumXY - sumX * sumY) / (n * sumXX - sumX * sumX)
+  }
+
+  reset(): void {
+    this.filterState.fill(0)
+    this.fastBass = 0
+    this.fastTotal = 0
+    this.shortBass = 0
+    this.shortTotal = 0
+    this.shortHigh = 0
+    this.longBassShare = null
+    this.highHistory.fill(0)
+    this.totalHistory.fill(0)
+    this.historyIndex = 0
+    this.historyFilled = 0
+    this.time = 0
+    this.section = 'groove'
+    this.sectionStart = 0
+    this.lowSince = null
+    this.tensionStart = 0
+    this.tensionLowest = 0
+    this.dropConfidence = 0
+  }
+}
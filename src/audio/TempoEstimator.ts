@@ -0,0 +1,130 @@
+import { clamp } from '../utils/math'
+
+export const MIN_TEMPO = 60  // BPM
+export const MAX_TEMPO = 200
+
+const WINDOW_DURATION = 8    // seconds of onset strength to correlate
+const UPDATE_INTERVAL = 0.5  // seconds between estimates
+const TEMPO_STEP = 0.5       // BPM resolution of the search
+const COMB_HARMONICS = 4     // beat multiples each comb filter checks
+
+// Log-normal tempo preference that settles half/double-time ties
+const PRIOR_CENTER = 130     // BPM
+const PRIOR_WIDTH = 0.8      // octaves
+
+// Tempo from the autocorrelation of the onset-strength signal.
+// Each candidate tempo is scored by a comb over 1-4 beat periods, so the
+// period that keeps lining up with itself wins; a tempo prior breaks the
+// remaining octave ambiguity between half and double time.
+export class TempoEstimator {
+  private frameRate: number
+  private strength: Float32Array
+  private filled: number = 0
+  private framesSinceUpdate: number = 0
+  private updateFrames: number
+
+  private bpm: number = 0        // 0 until the first estimate
+  private confidence: number = 0 // 0-1
+
+  constructor(frameRate: number) {
+    this.frameRate = frameRate
+    this.strength = new Float32Array(Math.round(WINDOW_DURATION * frameRate))
+    this.updateFrames = Math.round(UPDATE_INTERVAL * frameRate)
+  }
+
+  // Feed one onset-strength value per analysis frame; true when a new estimate is ready
+  addFrame(strength: number): boolean {
+    this.strength.copyWithin(0, 1)
+    this.strength[this.strength.length - 1] = strength
+    this.filled = Math.min(this.filled + 1, this.strength.length)
+
+    this.framesSinceUpdate++
+    if (this.framesSinceUpdate < this.updateFrames) return false
+    this.framesSinceUpdate = 0
+
+    // Need a few periods of the slowest tempo before estimating
+    if (this.filled < this.lagFor(MIN_TEMPO) * COMB_HARMONICS) return false
+
+    this.estimate()
+    return true
+  }
+
+  private lagFor(bpm: number): number {
+    return (60 * this.frameRate) / bpm
+  }
+
+  private estimate(): void {
+    const length = this.filled
+    const signal = this.strength.subarray(this.strength.length - length)
+
+    let mean = 0
+    for (let i = 0; i < length; i++) mean += signal[i]
+    mean /= length
+
+    const maxLag = Math.min(Math.ceil(this.lagFor(MIN_TEMPO) * COMB_HARMONICS) + 1, length - 1)
+    const acf = new Float32Array(maxLag + 1)
+    for (let lag = 0; lag <= maxLag; lag++) {
+      let sum = 0
+      for (let i = 0; i + lag < length; i++) {
+        sum += (signal[i] - mean) * (signal[i + lag] - mean)
+      }
+      acf[lag] = sum / (length - lag)
+    }
+
+    if (acf[0] <= 0) {
+      this.confidence = 0
+      return
+    }
+
+    // Linear interpolation between integer lags
+    const acfAt = (lag: number): number => {
+      const i = Math.floor(lag)
+      const t = lag - i
+      return acf[i] * (1 - t) + acf[Math.min(i + 1, maxLag)] * t
+    }
+
+    let bestBPM = 0
+    let bestWeighted = -Infinity
+    let bestScore = 0
+
+    for (let bpm = MIN_TEMPO; bpm <= MAX_TEMPO; bpm += TEMPO_STEP) {
+      const period = this.lagFor(bpm)
+
+      let score = 0
+      let harmonics = 0
+      for (let m = 1; m <= COMB_HARMONICS && m * period <= maxLag; m++) {
+        score += acfAt(m * period) / acf[0]
+        harmonics++
+      }
+      score /= harmonics
+
+      const octaves = Math.log2(bpm / PRIOR_CENTER) / PRIOR_WIDTH
+      const weighted = score * Math.exp(-0.5 * octaves * octaves)
+
+      if (weighted > bestWeighted) {
+        bestWeighted = weighted
+        bestBPM = bpm
+        bestScore = score
+      }
+    }
+
+    this.bpm = bestBPM
+    this.confidence = clamp(bestScore, 0, 1)
+  }
+
+  getBPM(): number {
+    return this.bpm
+  }
+
+  getConfidence(): number {
+    return this.confidence
+  }
+
+  reset(): void {
+    this.strength.fill(0)
+    this.filled = 0
+    this.framesSinceUpdate = 0
+    this.bpm = 0
+    this.confidence = 0
+  }
+}
@@ -0,0 +1,71 @@
+// Auto-lock once the tempo estimate has held this steady for this long
+const AUTO_LOCK_CONFIDENCE = 0.5
+const AUTO_LOCK_TIME = 8      // seconds
+const AUTO_LOCK_TOLERANCE = 1 // BPM
+
+// Manual and automatic tempo lock. Times are audio seconds from the analysis,
+// so it behaves the same on live input and on rendered test signals.
+export class TempoLock {
+  private locked: boolean = false
+  private lockedBPM: number = 140
+
+  private autoLock: boolean = false
+  private stableBPM: number = 0
+  private stableSince: number = 0         // audio time, seconds
+  private heldAt: number | null = null    // BPM the user unlocked at
+
+  // Feed every new estimate; returns true when it locked automatically just now
+  update(bpm: number, confidence: number, time: number): boolean {
+    if (this.locked) return false
+
+    if (Math.abs(bpm - this.stableBPM) > AUTO_LOCK_TOLERANCE || confidence < AUTO_LOCK_CONFIDENCE) {
+      this.stableBPM = bpm
+      this.stableSince = time
+      return false
+    }
+
+    // After a manual unlock, wait for a different tempo before locking again
+    if (this.heldAt !== null) {
+      if (Math.abs(bpm - this.heldAt) <= AUTO_LOCK_TOLERANCE) return false
+      this.heldAt = null
+    }
+
+    if (this.autoLock && time - this.stableSince >= AUTO_LOCK_TIME) {
+      this.lock(this.stableBPM)
+      return true
+    }
+    return false
+  }
+
+  lock(bpm: number): void {
+    this.locked = true
+    this.lockedBPM = bpm
+  }
+
+  // `estimate` is the tempo the detector currently hears
+  unlock(estimate: number): void {
+    if (this.locked) {
+      this.heldAt = estimate
+      this.stableBPM = 0
+    }
+    this.locked = false
+  }
+
+  setAutoLock(enabled: boolean): void {
+    this.autoLock = enabled
+  }
+
+  isLocked(): boolean {
+    return this.locked
+  }
+
+  getLockedBPM(): number {
+    return this.lockedBPM
+  }
+
+  // Forget the stability history; the lock itself is a user setting and stays
+  reset(): void {
+    this.stableBPM = 0
+    this.heldAt = null
+  }
+}
@@ -0,0 +1,59 @@
+import { FrameAnalyzer, HOP_SIZE, ANALYSIS_PROCESSOR_NAME, AnalysisSettings } from './FrameAnalyzer'
+
+// Globals of the AudioWorkletGlobalScope, which the DOM typings don't cover
+declare const sampleRate: number
+declare const currentFrame: number
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort
+  constructor(options?: AudioWorkletNodeOptions)
+}
+declare function registerProcessor(
+  name: string,
+  processorCtor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor
+): void
+
+const RENDER_QUANTUM = 128
+
+// Collects input into fixed hops and posts one AnalysisFrame per hop
+class AnalysisProcessor extends AudioWorkletProcessor {
+  private analyzer: FrameAnalyzer
+  private hop: Float32Array = new Float32Array(HOP_SIZE)
+  private hopFill: number = 0
+  private hopStart: number = 0 // stream sample index of hop[0]
+  private silence: Float32Array = new Float32Array(RENDER_QUANTUM)
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super(options)
+    this.analyzer = new FrameAnalyzer(sampleRate, options.processorOptions as AnalysisSettings)
+    this.port.onmessage = (event: MessageEvent<Partial<AnalysisSettings>>) => {
+      this.analyzer.configure(event.data)
+    }
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    // The input stage sums to mono; a disconnected input (e.g. paused file) reads as silence
+    const channel = inputs[0][0] ?? this.silence
+
+    for (let i = 0; i < channel.length; i++) {
+      if (this.hopFill === 0) {
+        this.hopStart = currentFrame + i
+      }
+      this.hop[this.hopFill++] = channel[i]
+
+      if (this.hopFill === HOP_SIZE) {
+        const frame = this.analyzer.process(this.hop, this.hopStart)
+        this.port.postMessage(frame, [
+          frame.spectrum.buffer,
+          frame.bands.buffer,
+          frame.waveform.buffer,
+          frame.chroma.buffer
+        ])
+        this.hopFill = 0
+      }
+    }
+
+    return true
+  }
+}
+
+registerProcessor(ANALYSIS_PROCESSOR_NAME, AnalysisProcessor)
@@ -0,0 +1,12 @@
+import { buildBeatGrid } from './BeatGrid'
+
+export interface BeatGridRequest {
+  samples: Float32Array // mono
+  sampleRate: number
+}
+
+// Analyses a whole file off the main thread and posts back its BeatGridData
+self.onmessage = (event: MessageEvent<BeatGridRequest>) => {
+  const { samples, sampleRate } = event.data
+  self.postMessage(buildBeatGrid(samples, sampleRate))
+}
@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { BeatClock } from '../BeatClock'
+
+describe('BeatClock', () => {
+  let now: number
+  let clock: BeatClock
+
+  // Run the clock at 60 fps and collect when each onset lands
+  const run = (until: number) => {
+    const onsets: { time: number, beatIndex: number }[] = []
+    for (; now <= until; now += 1000 / 60) {
+      const beat = clock.update()
+      if (beat.isOnset) {
+        onsets.push({ time: now, beatIndex: beat.beatIndex })
+      }
+    }
+    return onsets
+  }
+
+  beforeEach(() => {
+    now = 0
+    vi.spyOn(performance, 'now').mockImplementation(() => now)
+    clock = new BeatClock(120)
+    clock.start()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('keeps counting beats through a tempo change', () => {
+    const before = run(9900)
+    expect(before[before.length - 1].beatIndex).toBe(19)
+
+    const phase = clock.update().phase
+    clock.setBPM(121)
+    expect(clock.update().phase).toBeCloseTo(phase)
+
+    const after = run(20000)
+    expect(after[0].beatIndex).toBe(20)
+    expect(after[0].time).toBeLessThan(10600)
+
+    // One onset per beat, at the new tempo, with the index rising by one each time
+    after.forEach((onset, i) => expect(onset.beatIndex).toBe(20 + i))
+    const interval = (after[after.length - 1].time - after[0].time) / (after.length - 1)
+    expect(interval).toBeCloseTo(60000 / 121, -1)
+  })
+
+  it('takes over a locked tempo and beat position from the tracker', () => {
+    run(1000)
+    const syncedAt = now
+    clock.sync(33, 0.25, 100)
+    expect(clock.getBPM()).toBe(100)
+
+    const beat = clock.update()
+    expect(beat.beatIndex).toBe(33)
+    expect(beat.phase).toBeCloseTo(0.25)
+
+    // Next beat lands three quarters of a 600 ms beat later
+    const onsets = run(syncedAt + 500)
+    expect(onsets).toHaveLength(1)
+    expect(onsets[0].beatIndex).toBe(34)
+    expect(onsets[0].time - syncedAt).toBeGreaterThanOrEqual(450)
+    expect(onsets[0].time - syncedAt).toBeLessThan(450 + 1000 / 60)
+  })
+
+  it('keeps the bar position through a tempo change', () => {
+    run(3100)
+    clock.setBPM(90)
+    const beat = clock.update()
+    expect(beat.beatIndex).toBe(6)
+    expect(beat.beatInBar).toBe(2)
+    expect(beat.barIndex).toBe(1)
+  })
+})
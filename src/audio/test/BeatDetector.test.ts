@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import { analyze, between, scoreOnsets, tempoAt } from './harness'
+import { clickTrack, fourOnTheFloor, silence, swingPattern, tempoRamp } from './signals'
+
+// The tempo estimate needs a few seconds of onsets before it settles
+const SETTLE_TIME = 10 // seconds
+
+describe('kick onsets and tempo', () => {
+  it.each([100, 128, 140, 174])('four-on-the-floor at %i BPM', (bpm) => {
+    const signal = fourOnTheFloor(bpm, 20)
+    const run = analyze(signal)
+
+    const score = scoreOnsets(run.onsets, signal.onsets)
+    expect(score.precision).toBeGreaterThanOrEqual(0.95)
+    expect(score.recall).toBeGreaterThanOrEqual(0.95)
+    expect(score.meanError).toBeLessThan(0.005)
+
+    const tempo = tempoAt(run, SETTLE_TIME)
+    expect(tempo.bpm).toBeCloseTo(bpm, 0)
+    expect(tempo.confidence).toBeGreaterThanOrEqual(0.5)
+  })
+
+  it.each([96, 120])('swung hats and ghost snares at %i BPM stay off the beat', (bpm) => {
+    const signal = swingPattern(bpm, 20)
+    const run = analyze(signal)
+
+    const score = scoreOnsets(run.onsets, signal.onsets)
+    expect(score.precision).toBeGreaterThanOrEqual(0.95)
+    expect(score.recall).toBeGreaterThanOrEqual(0.95)
+
+    expect(tempoAt(run, SETTLE_TIME).bpm).toBeCloseTo(bpm, 0)
+  })
+
+  it('follows a tempo ramp from 120 to 135 BPM', () => {
+    const signal = tempoRamp(120, 135, 30)
+    const run = analyze(signal)
+
+    const score = scoreOnsets(run.onsets, signal.onsets)
+    expect(score.precision).toBeGreaterThanOrEqual(0.95)
+    expect(score.recall).toBeGreaterThanOrEqual(0.95)
+
+    // The estimate averages the last few seconds, so it trails the ramp a little
+    const early = tempoAt(run, SETTLE_TIME).bpm
+    const late = tempoAt(run, 29).bpm
+    expect(early).toBeGreaterThan(119)
+    expect(early).toBeLessThan(126)
+    expect(late).toBeGreaterThan(131)
+    expect(late).toBeLessThanOrEqual(135)
+  })
+})
+
+describe('click tracks', () => {
+  // Clicks have no low end to speak of, so any drum band may pick them up
+  it.each([90, 120])('finds every click at %i BPM', (bpm) => {
+    const signal = clickTrack(bpm, 20)
+    const run = analyze(signal)
+
+    const score = scoreOnsets(between(run.hits, 1, 20), between(signal.onsets, 1, 20))
+    expect(score.precision).toBeGreaterThanOrEqual(0.95)
+    expect(score.recall).toBeGreaterThanOrEqual(0.95)
+
+    expect(tempoAt(run, SETTLE_TIME).bpm).toBeCloseTo(bpm, 0)
+  })
+})
+
+describe('silence', () => {
+  it('reports nothing in digital silence', () => {
+    const run = analyze(silence(10))
+    expect(run.onsets).toHaveLength(0)
+    expect(run.hits).toHaveLength(0)
+    expect(tempoAt(run, 9).confidence).toBe(0)
+  })
+
+  it('ignores a quiet noise floor', () => {
+    const run = analyze(silence(10, 0.001))
+    expect(run.onsets).toHaveLength(0)
+    expect(run.hits).toHaveLength(0)
+    expect(tempoAt(run, 9).confidence).toBeLessThan(0.2)
+  })
+})
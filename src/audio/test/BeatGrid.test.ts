@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest'
+import { BeatGrid, BeatGridData, buildBeatGrid } from '../BeatGrid'
+import { SAMPLE_RATE, arrangement, fourOnTheFloor, swingPattern } from './signals'
+
+// Distance from each expected time to the nearest grid beat, seconds
+function gridErrors(beats: number[], expected: number[]): number[] {
+  return expected.map(time => Math.min(...beats.map(beat => Math.abs(beat - time))))
+}
+
+describe('buildBeatGrid', () => {
+  it.each([
+    ['four-on-the-floor', 128, fourOnTheFloor(128, 40)],
+    ['shuffle', 95, swingPattern(95, 40)]
+  ])('puts a beat on every kick of a %s at %i BPM', (_, bpm, signal) => {
+    const grid = buildBeatGrid(signal.samples, SAMPLE_RATE)
+
+    expect(grid.tempo).toHaveLength(1)
+    expect(grid.tempo[0].bpm).toBeCloseTo(bpm, 1)
+    expect(Math.max(...gridErrors(grid.beats, signal.onsets))).toBeLessThan(0.005)
+    // No extra beats between the kicks
+    expect(grid.beats.filter(time => time < signal.onsets[signal.onsets.length - 1] + 0.01))
+      .toHaveLength(signal.onsets.length)
+  })
+
+  it.each([
+    [128, 2],
+    [174, 3],
+    [100, 1]
+  ])('finds the bars and sections of an arrangement at %i BPM after %i pickup beats', (bpm, pickupBeats) => {
+    const signal = arrangement(bpm, pickupBeats)
+    const grid = buildBeatGrid(signal.samples, SAMPLE_RATE)
+
+    // Beats carry on through the breakdown, where there are no kicks
+    expect(Math.max(...gridErrors(grid.beats, signal.downbeats!))).toBeLessThan(0.005)
+    expect(grid.beats[grid.firstDownbeat]).toBeCloseTo(signal.downbeats![0], 2)
+
+    const drop = grid.sections.find(marker => marker.section === 'drop')
+    expect(drop?.time).toBeCloseTo(signal.drops![0], 2)
+    const breakdown = grid.sections.find(marker => marker.section === 'breakdown')
+    expect(breakdown?.time).toBeCloseTo(signal.downbeats![16], 2)
+  })
+})
+
+describe('BeatGrid', () => {
+  // 120 BPM from 1 s, with the bar starting on the third beat
+  const data: BeatGridData = {
+    version: 1,
+    duration: 20,
+    beats: Array.from({ length: 36 }, (_, i) => 1 + i * 0.5),
+    firstDownbeat: 2,
+    tempo: [{ start: 0, bpm: 120 }],
+    sections: [
+      { time: 0, section: 'groove', confidence: 0 },
+      { time: 9, section: 'drop', confidence: 0.8 }
+    ]
+  }
+
+  it('reads phase and bar position from the playback position', () => {
+    const grid = new BeatGrid(data)
+
+    const beat = grid.getBeatInfo(2.25, 2.2)
+    expect(beat.phase).toBeCloseTo(0.5)
+    expect(beat.bpm).toBeCloseTo(120)
+    expect(beat.beatInBar).toBe(0)
+    expect(beat.isOnset).toBe(false)
+
+    const next = grid.getBeatInfo(2.51, 2.49)
+    expect(next.isOnset).toBe(true)
+    expect(next.beatInBar).toBe(1)
+  })
+
+  it('stays in phase across seeks and past either end', () => {
+    const grid = new BeatGrid(data)
+
+    // A seek lands in the middle of a beat: right phase, no onset
+    const seek = grid.getBeatInfo(12.4, 3)
+    expect(seek.phase).toBeCloseTo(0.8)
+    expect(seek.isOnset).toBe(false)
+    expect(seek.beatInBar).toBe(0)
+
+    expect(grid.getBeatInfo(0.75, 0.7).phase).toBeCloseTo(0.5)
+    expect(grid.getBeatInfo(19.5, 19.49).isOnset).toBe(true)
+  })
+
+  it('moves the bar line to the beat nearest a downbeat reset', () => {
+    const grid = new BeatGrid(data)
+    grid.resetDownbeat(3.05)
+
+    expect(grid.getBeatInfo(3.01, 2.99).isDownbeat).toBe(true)
+    expect(grid.getBeatInfo(1.01, 0.99).isDownbeat).toBe(true)
+    expect(grid.getBeatInfo(2.51, 2.49).isDownbeat).toBe(false)
+  })
+
+  it('looks up tempo and section by position', () => {
+    const grid = new BeatGrid(data)
+
+    expect(grid.getBPM(5)).toBe(120)
+    expect(grid.getSection(8.9).section).toBe('groove')
+    expect(grid.getSection(9).section).toBe('drop')
+  })
+})
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { BeatTracker } from '../BeatTracker'
+import { analyze, between, scoreOnsets, trackBeats } from './harness'
+import { clickTrack, fourOnTheFloor, swingPattern, tempoRamp } from './signals'
+
+// The tracker starts from 140 BPM and has to find the real tempo first
+const SETTLE_TIME = 10 // seconds
+
+describe('beat tracking', () => {
+  it.each([
+    ['four-on-the-floor at 90 BPM', fourOnTheFloor(90, 30)],
+    ['four-on-the-floor at 128 BPM', fourOnTheFloor(128, 30)],
+    ['four-on-the-floor at 174 BPM', fourOnTheFloor(174, 30)],
+    ['a shuffle at 96 BPM', swingPattern(96, 30)],
+    ['a click track at 120 BPM', clickTrack(120, 30)],
+    ['a ramp from 140 to 124 BPM', tempoRamp(140, 124, 30)]
+  ])('plays its beats on the kicks of %s', (_name, signal) => {
+    const beats = trackBeats(analyze(signal))
+    const end = signal.onsets[signal.onsets.length - 1]
+
+    const score = scoreOnsets(between(beats, SETTLE_TIME, end + 0.1), between(signal.onsets, SETTLE_TIME, end))
+    expect(score.precision).toBeGreaterThanOrEqual(0.95)
+    expect(score.recall).toBeGreaterThanOrEqual(0.95)
+    expect(score.meanError).toBeLessThan(0.03)
+  })
+
+  it('ignores a one-off jump in the tempo estimate', () => {
+    const tracker = new BeatTracker()
+    const beatAt = (beat: number, bpm: number) => tracker.update(beat * 500, beat * 500, bpm)
+
+    for (let beat = 0; beat < 16; beat++) {
+      beatAt(beat, 120)
+    }
+
+    // An octave error for a couple of onsets only gets the usual gentle pull
+    beatAt(16, 60)
+    beatAt(17, 60)
+    expect(tracker.getBPM()).toBeGreaterThan(100)
+
+    // Held for long enough, it is a new tempo
+    for (let beat = 18; beat < 22; beat++) {
+      beatAt(beat, 60)
+    }
+    expect(tracker.getBPM()).toBeCloseTo(60, -1)
+  })
+})
@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { TempoLock } from '../TempoLock'
+
+// Feed a steady estimate once per half second, as the tempo estimator does
+function feed(lock: TempoLock, bpm: number, confidence: number, from: number, to: number): boolean {
+  let locked = false
+  for (let time = from; time <= to; time += 0.5) {
+    locked = lock.update(bpm, confidence, time) || locked
+  }
+  return locked
+}
+
+describe('TempoLock', () => {
+  let lock: TempoLock
+
+  beforeEach(() => {
+    lock = new TempoLock()
+    lock.setAutoLock(true)
+  })
+
+  it('locks once the estimate has held steady for eight seconds', () => {
+    expect(feed(lock, 128, 0.8, 0, 7.5)).toBe(false)
+    expect(feed(lock, 128, 0.8, 8, 8)).toBe(true)
+    expect(lock.isLocked()).toBe(true)
+    expect(lock.getLockedBPM()).toBe(128)
+  })
+
+  it('does not lock on low confidence or a wandering estimate', () => {
+    feed(lock, 128, 0.3, 0, 20)
+    expect(lock.isLocked()).toBe(false)
+
+    for (let time = 0; time <= 20; time += 0.5) {
+      lock.update(time % 2 < 1 ? 126 : 130, 0.8, time)
+    }
+    expect(lock.isLocked()).toBe(false)
+  })
+
+  it('leaves the tempo alone with auto-lock off', () => {
+    lock.setAutoLock(false)
+    feed(lock, 128, 0.8, 0, 20)
+    expect(lock.isLocked()).toBe(false)
+  })
+
+  it('waits for a new tempo after a manual unlock', () => {
+    feed(lock, 128, 0.8, 0, 8)
+    lock.unlock(128)
+
+    feed(lock, 128, 0.8, 8.5, 30)
+    expect(lock.isLocked()).toBe(false)
+
+    feed(lock, 140, 0.8, 30.5, 40)
+    expect(lock.isLocked()).toBe(true)
+    expect(lock.getLockedBPM()).toBe(140)
+  })
+
+  it('keeps a lock through a reset', () => {
+    lock.lock(174)
+    lock.reset()
+    expect(lock.isLocked()).toBe(true)
+    expect(lock.getLockedBPM()).toBe(174)
+  })
+})
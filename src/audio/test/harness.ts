@@ -0,0 +1,129 @@
+import { FrameAnalyzer, HOP_SIZE, AnalysisSettings } from '../FrameAnalyzer'
+import { BeatTracker } from '../BeatTracker'
+import { SAMPLE_RATE, TestSignal } from './signals'
+
+export interface RunFrame {
+  time: number              // audio time at the end of the frame, seconds
+  onsetTime: number | null  // kick onset reported by this frame, seconds
+  bpm: number
+  confidence: number
+}
+
+export interface AnalysisRun {
+  frames: RunFrame[]
+  onsets: number[] // detected kick onsets, seconds
+  hits: number[]   // drum hits in any band, seconds
+}
+
+export interface OnsetScore {
+  precision: number // share of detected onsets that match a real one
+  recall: number    // share of real onsets that were detected
+  meanError: number // seconds, mean absolute timing error of the matches
+}
+
+// Bands reacting to the same hit a frame apart count once
+const HIT_MERGE_TIME = 0.05 // seconds
+
+const defaultSettings: AnalysisSettings = {
+  sensitivity: 0.5,
+  smoothing: 0.8,
+  fftSize: 512,
+  lowCrossover: 250,
+  highCrossover: 4000,
+  bpmLocked: false,
+  lockedBPM: 140
+}
+
+// Feed a signal through the analysis in hops, exactly as the worklet does.
+// The stream position is the only clock, so runs are repeatable.
+export function analyze(signal: TestSignal, settings: Partial<AnalysisSettings> = {}): AnalysisRun {
+  const analyzer = new FrameAnalyzer(SAMPLE_RATE, { ...defaultSettings, ...settings })
+  const run: AnalysisRun = { frames: [], onsets: [], hits: [] }
+
+  for (let start = 0; start + HOP_SIZE <= signal.samples.length; start += HOP_SIZE) {
+    const frame = analyzer.process(signal.samples.subarray(start, start + HOP_SIZE), start)
+    run.frames.push({
+      time: frame.time,
+      onsetTime: frame.onsetTime,
+      bpm: frame.estimatedBPM,
+      confidence: frame.tempoConfidence
+    })
+
+    if (frame.onsetTime !== null) {
+      run.onsets.push(frame.onsetTime)
+    }
+    const lastHit = run.hits[run.hits.length - 1] ?? -Infinity
+    if ((frame.kickOnset || frame.snareOnset || frame.hatOnset) && frame.time - lastHit > HIT_MERGE_TIME) {
+      run.hits.push(frame.time)
+    }
+  }
+
+  return run
+}
+
+// Drive the beat tracker from a run the way the render loop does: at a fixed
+// display rate, seeing each frame's results once its audio has been analysed.
+// Returns the times of the beats it plays, seconds.
+export function trackBeats(run: AnalysisRun, displayRate: number = 60): number[] {
+  const tracker = new BeatTracker()
+  const beats: number[] = []
+  const end = run.frames[run.frames.length - 1]?.time ?? 0
+  let next = 0
+  let bpm = 140
+
+  for (let frame = 0; frame / displayRate <= end; frame++) {
+    const now = frame / displayRate
+    let onsetTime: number | null = null
+    while (next < run.frames.length && run.frames[next].time <= now) {
+      onsetTime = run.frames[next].onsetTime ?? onsetTime
+      bpm = run.frames[next].bpm
+      next++
+    }
+
+    const beat = tracker.update(now * 1000, onsetTime === null ? null : onsetTime * 1000, bpm)
+    if (beat.isOnset) {
+      beats.push(now - (beat.phase * 60) / beat.bpm)
+    }
+  }
+
+  return beats
+}
+
+// Match detected onsets to real ones one-to-one within `tolerance` seconds
+export function scoreOnsets(detected: number[], expected: number[], tolerance: number = 0.05): OnsetScore {
+  const used = new Set<number>()
+  let matches = 0
+  let errorSum = 0
+
+  for (const time of expected) {
+    let best = -1
+    for (let i = 0; i < detected.length; i++) {
+      if (used.has(i) || Math.abs(detected[i] - time) > tolerance) continue
+      if (best < 0 || Math.abs(detected[i] - time) < Math.abs(detected[best] - time)) {
+        best = i
+      }
+    }
+    if (best >= 0) {
+      used.add(best)
+      matches++
+      errorSum += Math.abs(detected[best] - time)
+    }
+  }
+
+  return {
+    precision: detected.length > 0 ? matches / detected.length : 1,
+    recall: expected.length > 0 ? matches / expected.length : 1,
+    meanError: matches > 0 ? errorSum / matches : 0
+  }
+}
+
+// Tempo estimate `time` seconds into the run
+export function tempoAt(run: AnalysisRun, time: number): { bpm: number, confidence: number } {
+  const frame = run.frames.find(f => f.time >= time) ?? run.frames[run.frames.length - 1]
+  return { bpm: frame.bpm, confidence: frame.confidence }
+}
+
+// Only the times from `start` to `end` seconds
+export function between(times: number[], start: number, end: number): number[] {
+  return times.filter(time => time >= start && time <= end)
+}
@@ -0,0 +1,170 @@
+// Synthetic test signals with known onset times, rendered at a fixed sample rate
+
+export const SAMPLE_RATE = 44100
+
+export interface TestSignal {
+  samples: Float32Array
+  onsets: number[]     // seconds, where the beats (kicks) start
+  downbeats?: number[] // seconds, first beat of every bar
+  drops?: number[]     // seconds, where drops land
+}
+
+// Deterministic noise so every run hears the same signal
+function createNoise(seed: number): () => number {
+  let state = seed
+  return () => {
+    state = (state * 16807) % 2147483647
+    return (state / 2147483647) * 2 - 1
+  }
+}
+
+// Add a sound rendered by `voice(t)` for `length` seconds at `time`
+function addSound(
+  samples: Float32Array,
+  time: number,
+  length: number,
+  voice: (t: number) => number
+): void {
+  const start = Math.round(time * SAMPLE_RATE)
+  const end = Math.min(samples.length, start + Math.round(length * SAMPLE_RATE))
+  for (let i = Math.max(0, start); i < end; i++) {
+    samples[i] += voice((i - start) / SAMPLE_RATE)
+  }
+}
+
+// Club kick: a sine sweeping from 150 down to 50 Hz with a fast decay
+function kick(t: number): number {
+  const phase = 2 * Math.PI * (50 * t + (100 / 30) * (1 - Math.exp(-30 * t)))
+  return 0.8 * Math.sin(phase) * Math.exp(-8 * t)
+}
+
+function hat(noise: () => number): (t: number) => number {
+  return (t) => 0.15 * noise() * Math.exp(-60 * t)
+}
+
+function snare(noise: () => number): (t: number) => number {
+  return (t) => (0.3 * noise() + 0.2 * Math.sin(2 * Math.PI * 190 * t)) * Math.exp(-20 * t)
+}
+
+// Beat times at a constant tempo
+function beatTimes(bpm: number, duration: number, offset: number = 0.1): number[] {
+  const times: number[] = []
+  for (let time = offset; time < duration - 0.2; time += 60 / bpm) {
+    times.push(time)
+  }
+  return times
+}
+
+// Metronome: short broadband clicks, accented on the bar
+export function clickTrack(bpm: number, duration: number): TestSignal {
+  const samples = new Float32Array(Math.round(duration * SAMPLE_RATE))
+  const noise = createNoise(1)
+  const onsets = beatTimes(bpm, duration)
+  onsets.forEach((time, index) => {
+    const level = index % 4 === 0 ? 0.9 : 0.6
+    addSound(samples, time, 0.01, (t) => level * noise() * Math.exp(-600 * t))
+  })
+  return { samples, onsets }
+}
+
+// Four-on-the-floor: a kick on every beat, open hats on the offbeats, claps on 2 and 4
+export function fourOnTheFloor(bpm: number, duration: number): TestSignal {
+  const samples = new Float32Array(Math.round(duration * SAMPLE_RATE))
+  const noise = createNoise(2)
+  const beat = 60 / bpm
+  const onsets = beatTimes(bpm, duration)
+  onsets.forEach((time, index) => {
+    addSound(samples, time, beat, kick)
+    addSound(samples, time + beat / 2, 0.1, hat(noise))
+    if (index % 2 === 1) {
+      addSound(samples, time, 0.2, snare(noise))
+    }
+  })
+  return { samples, onsets }
+}
+
+// Shuffle: kicks on the beats, hats on swung eighths (2:1 by default) and
+// snare ghost notes on the swung offbeat before each backbeat
+export function swingPattern(bpm: number, duration: number, swing: number = 2 / 3): TestSignal {
+  const samples = new Float32Array(Math.round(duration * SAMPLE_RATE))
+  const noise = createNoise(3)
+  const beat = 60 / bpm
+  const onsets = beatTimes(bpm, duration)
+  onsets.forEach((time, index) => {
+    addSound(samples, time, beat, kick)
+    addSound(samples, time, 0.05, hat(noise))
+    addSound(samples, time + beat * swing, 0.05, hat(noise))
+    if (index % 2 === 0) {
+      addSound(samples, time + beat * swing, 0.1, (t) => 0.3 * snare(noise)(t))
+    } else {
+      addSound(samples, time, 0.2, snare(noise))
+    }
+  })
+  return { samples, onsets }
+}
+
+// Kicks whose tempo changes linearly from `fromBPM` to `toBPM`
+export function tempoRamp(fromBPM: number, toBPM: number, duration: number): TestSignal {
+  const samples = new Float32Array(Math.round(duration * SAMPLE_RATE))
+  const onsets: number[] = []
+  for (let time = 0.1; time < duration - 0.2;) {
+    onsets.push(time)
+    const bpm = fromBPM + ((toBPM - fromBPM) * time) / duration
+    addSound(samples, time, 60 / bpm, kick)
+    time += 60 / bpm
+  }
+  return { samples, onsets }
+}
+
+// Dance track in miniature: a few pickup beats, then a 16-bar groove, an
+// 8-bar breakdown without kick and bass, and a 16-bar drop. Claps sit on 2
+// and 4, and a crash marks every 8-bar phrase.
+export function arrangement(bpm: number, pickupBeats: number = 2): TestSignal {
+  const beat = 60 / bpm
+  const bars = 40
+  const duration = 0.1 + (pickupBeats + bars * 4) * beat + 1
+  const samples = new Float32Array(Math.round(duration * SAMPLE_RATE))
+  const noise = createNoise(5)
+  const signal: Required<TestSignal> = { samples, onsets: [], downbeats: [], drops: [] }
+
+  // A pad holds the breakdown together
+  addSound(samples, 0, duration, (t) =>
+    0.04 * (Math.sin(2 * Math.PI * 220 * t) + Math.sin(2 * Math.PI * 277 * t) + Math.sin(2 * Math.PI * 330 * t)))
+
+  for (let index = -pickupBeats; index < bars * 4; index++) {
+    const time = 0.1 + (index + pickupBeats) * beat
+    const bar = Math.floor(index / 4)
+    const isBreakdown = bar >= 16 && bar < 24
+
+    addSound(samples, time + beat / 2, 0.1, hat(noise))
+    if (index >= 0 && index % 4 === 0) {
+      signal.downbeats.push(time)
+      if (bar % 8 === 0) {
+        addSound(samples, time, 1.5, (t) => 0.2 * noise() * Math.exp(-3 * t))
+      }
+      if (bar === 24) {
+        signal.drops.push(time)
+      }
+    }
+    if (isBreakdown) continue
+
+    signal.onsets.push(time)
+    addSound(samples, time, beat, kick)
+    addSound(samples, time + beat / 2, beat / 2, (t) => 0.3 * Math.sin(2 * Math.PI * 55 * t) * Math.exp(-4 * t))
+    if (index >= 0 && index % 2 === 1) {
+      addSound(samples, time, 0.2, snare(noise))
+    }
+  }
+
+  return signal
+}
+
+// Digital silence, or a faint noise floor like an idle microphone
+export function silence(duration: number, noiseLevel: number = 0): TestSignal {
+  const samples = new Float32Array(Math.round(duration * SAMPLE_RATE))
+  const noise = createNoise(4)
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = noiseLevel * noise()
+  }
+  return { samples, onsets: [] }
+}
@@ -3,9 +3,45 @@ import { Renderer } from '../renderer/Renderer'
 import { SceneManager } from '../renderer/SceneManager'
 import { AudioAnalyzer } from '../audio/AudioAnalyzer'
 import { BeatClock, TapTempo } from '../audio/BeatClock'
+import { BeatQuantizer } from '../audio/BeatQuantizer'
+import { BeatTracker } from '../audio/BeatTracker'
+import { HarmonicPalette } from '../renderer/HarmonicPalette'
+import { PerformanceFx, activePerformanceFx } from '../renderer/PerformanceFx'
+import { MidiClock } from '../midi/MidiClock'
+import { MidiFeedback } from '../midi/MidiFeedback'
+import { requestMidiAccess } from '../midi/MidiAccess'
 import { useStore } from '../store/useStore'
 import { AudioFeatures, BeatInfo, defaultAudioFeatures, defaultBeatInfo } from '../scenes/types'
 
+// Share of a beat after its onset in which a detected drop still counts for it
+const DROP_BEAT_WINDOW = 0.25
+
+// Mirror the MIDI clock into the store for the settings panel, only when
+// something it shows has changed
+function publishMidiClock(midiClock: MidiClock, now: number): void {
+  if (!midiClock.isAttached()) return
+
+  const state = midiClock.getState(now)
+  state.bpm = Math.round(state.bpm * 10) / 10
+  const { midiClock: shown, setMidiClock } = useStore.getState()
+  if (state.status !== shown.status || state.bpm !== shown.bpm || state.device !== shown.device) {
+    setMidiClock(state)
+  }
+}
+
+// Light controller pads from the current state; the feedback only sends changes
+function updateMidiFeedback(midiFeedback: MidiFeedback, beat: BeatInfo): void {
+  const { midiMappings, currentSceneIndex, pendingSceneIndex, isPaused, heldFx, latchedFx } = useStore.getState()
+  midiFeedback.update({
+    mappings: midiMappings,
+    currentScene: currentSceneIndex,
+    pendingScene: pendingSceneIndex,
+    paused: isPaused,
+    fx: activePerformanceFx(heldFx, latchedFx),
+    beat
+  })
+}
+
 interface CanvasProps {
   onSceneManagerReady: (sceneManager: SceneManager) => void
   onAudioAnalyzerReady: (analyzer: AudioAnalyzer) => void
@@ -25,6 +61,18 @@ export function Canvas({
   const audioAnalyzerRef = useRef<AudioAnalyzer | null>(null)
   const beatClockRef = useRef<BeatClock | null>(null)
   const tapTempoRef = useRef<TapTempo | null>(null)
+  const quantizerRef = useRef<BeatQuantizer>(new BeatQuantizer())
+  const beatTrackerRef = useRef<BeatTracker>(new BeatTracker())
+  const midiClockRef = useRef<MidiClock>(new MidiClock())
+  const midiFeedbackRef = useRef<MidiFeedback>(new MidiFeedback())
+  const harmonicPaletteRef = useRef<HarmonicPalette>(new HarmonicPalette())
+  const performanceFxRef = useRef<PerformanceFx>(new PerformanceFx())
+  const lastBeatInfoRef = useRef<BeatInfo>(defaultBeatInfo)
+  const gridPositionRef = useRef<number>(0) // file position at the last beat grid read
+  const wasMicModeRef = useRef<boolean>(false)
+  const dropPendingRef = useRef<boolean>(false)
+  // Lock state last applied to / read from the analyzer, used to spot changes on its side
+  const analyzerLockRef = useRef<boolean>(false)
   const animationFrameRef = useRef<number>(0)
   const lastTimeRef = useRef<number>(0)
 
@@ -34,13 +82,40 @@ export function Canvas({
     setCurrentSceneIndex,
     setSceneCount,
     micMode,
-    micStatus,
+    inputStatus,
     bpm,
+    setBpm,
+    tempoSource,
+    setMidiClock,
+    midiEnabled,
+    midiOutputProfiles,
+    setMidiOutputs,
     setAutoBPM,
+    setSongSection,
+    setSongKey,
+    autoLockBPM,
+    isBpmLocked,
+    setBpmLocked,
+    lockedBPM,
     quality,
     masterIntensity,
     sensitivity,
-    smoothing
+    smoothing,
+    fftSize,
+    lowCrossover,
+    highCrossover,
+    inputGain,
+    inputChannel,
+    sceneParams,
+    transitionType,
+    transitionDuration,
+    quantizeMode,
+    fxFadeIn,
+    fxFadeOut,
+    strobeRate,
+    commitPendingScene,
+    jumpToNextScene,
+    downbeatResetAt
   } = useStore()
 
   // Initialize renderer and scene manager
@@ -57,6 +132,9 @@ export function Canvas({
     sceneManager.init()
     sceneManagerRef.current = sceneManager
 
+    // Restore persisted scene parameters
+    sceneManager.applySceneParams(useStore.getState().sceneParams)
+
     // Create audio analyzer
     const audioAnalyzer = new AudioAnalyzer()
     audioAnalyzerRef.current = audioAnalyzer
@@ -110,13 +188,144 @@ export function Canvas({
     }
   }, [bpm])
 
+  // Re-align bar counting to a new downbeat
+  useEffect(() => {
+    if (downbeatResetAt === 0) return
+
+    if (beatClockRef.current) {
+      beatClockRef.current.resetDownbeat(downbeatResetAt)
+    }
+    beatTrackerRef.current.resetDownbeat(downbeatResetAt)
+    midiClockRef.current.resetDownbeat(downbeatResetAt)
+
+    // The grid counts in file time: move the press back to where the file was then
+    const player = audioAnalyzerRef.current?.getFilePlayer()
+    const beatGrid = player?.getBeatGrid()
+    if (player && beatGrid) {
+      beatGrid.resetDownbeat(player.getPosition() - (performance.now() - downbeatResetAt) / 1000)
+    }
+  }, [downbeatResetAt])
+
+  // Start tracking from scratch whenever mic mode turns on or off
+  useEffect(() => {
+    beatTrackerRef.current.reset()
+    dropPendingRef.current = false
+    setSongSection('groove', 0)
+    harmonicPaletteRef.current.reset()
+    setSongKey(null, 'major', 0)
+
+    // Leaving mic mode with a locked tempo: carry tempo and phase over to the beat clock
+    const { isBpmLocked, lockedBPM } = useStore.getState()
+    if (wasMicModeRef.current && !micMode && isBpmLocked && beatClockRef.current) {
+      const lastBeat = lastBeatInfoRef.current
+      setBpm(lockedBPM)
+      beatClockRef.current.sync(lastBeat.beatIndex, lastBeat.phase, lockedBPM)
+    }
+    wasMicModeRef.current = micMode
+  }, [micMode, setBpm, setSongSection, setSongKey])
+
+  // Listen for MIDI clock only while it is the tempo source, so the
+  // permission prompt waits until someone asks for it
+  useEffect(() => {
+    if (tempoSource !== 'midi') return
+
+    const midiClock = midiClockRef.current
+    let cancelled = false
+    requestMidiAccess().then((result) => {
+      if (cancelled) return
+      if (result.status === 'on') {
+        midiClock.attach(result.access)
+      } else {
+        setMidiClock({ status: result.status, bpm: 0, device: '' })
+      }
+    })
+
+    return () => {
+      cancelled = true
+      midiClock.detach()
+      setMidiClock({ status: 'off', bpm: 0, device: '' })
+    }
+  }, [tempoSource, setMidiClock])
+
+  // LED feedback to controllers goes out while MIDI input is on
+  useEffect(() => {
+    if (!midiEnabled) return
+
+    const midiFeedback = midiFeedbackRef.current
+    midiFeedback.setOutputsListener(setMidiOutputs)
+    let cancelled = false
+    requestMidiAccess().then((result) => {
+      if (!cancelled && result.status === 'on') {
+        midiFeedback.attach(result.access)
+      }
+    })
+
+    return () => {
+      cancelled = true
+      midiFeedback.detach()
+      midiFeedback.setOutputsListener(null)
+    }
+  }, [midiEnabled, setMidiOutputs])
+
+  useEffect(() => {
+    midiFeedbackRef.current.setProfiles(midiOutputProfiles)
+  }, [midiOutputProfiles])
+
+  useEffect(() => {
+    performanceFxRef.current.setFadeTimes(fxFadeIn, fxFadeOut)
+    performanceFxRef.current.setStrobeRate(strobeRate)
+  }, [fxFadeIn, fxFadeOut, strobeRate])
+
+  // Push BPM lock changes from the store to the beat detector
+  useEffect(() => {
+    const analyzer = audioAnalyzerRef.current
+    if (!analyzer) return
+
+    if (isBpmLocked) {
+      analyzer.lockBPM(lockedBPM)
+    } else {
+      analyzer.unlockBPM()
+    }
+    analyzerLockRef.current = isBpmLocked
+  }, [isBpmLocked, lockedBPM])
+
   // Update audio analyzer settings
   useEffect(() => {
     if (audioAnalyzerRef.current) {
       audioAnalyzerRef.current.setSensitivity(sensitivity)
       audioAnalyzerRef.current.setSmoothing(smoothing)
+      audioAnalyzerRef.current.setAutoLock(autoLockBPM)
     }
-  }, [sensitivity, smoothing])
+  }, [sensitivity, smoothing, autoLockBPM])
+
+  // Update spectrum resolution and band splits
+  useEffect(() => {
+    if (audioAnalyzerRef.current) {
+      audioAnalyzerRef.current.setFFTSize(fftSize)
+      audioAnalyzerRef.current.setCrossovers(lowCrossover, highCrossover)
+    }
+  }, [fftSize, lowCrossover, highCrossover])
+
+  // Update input stage
+  useEffect(() => {
+    if (audioAnalyzerRef.current) {
+      audioAnalyzerRef.current.setInputGain(inputGain)
+      audioAnalyzerRef.current.setInputChannel(inputChannel)
+    }
+  }, [inputGain, inputChannel])
+
+  // Update quantize mode
+  useEffect(() => {
+    quantizerRef.current.setMode(quantizeMode)
+  }, [quantizeMode])
+
+  // Update transition settings
+  useEffect(() => {
+    if (sceneManagerRef.current) {
+      sceneManagerRef.current.setTransitionType(transitionType)
+      sceneManagerRef.current.setTransitionDuration(transitionDuration * 1000)
+    }
+  }, [transitionType, transitionDuration])
 
   // Update current scene
   useEffect(() => {
@@ -125,12 +334,20 @@ export function Canvas({
     }
   }, [currentSceneIndex])
 
+  // Apply scene parameters when they change
+  useEffect(() => {
+    if (sceneManagerRef.current) {
+      sceneManagerRef.current.applySceneParams(sceneParams)
+    }
+  }, [sceneParams])
+
   // Animation loop
   const animate = useCallback((time: number) => {
     animationFrameRef.current = requestAnimationFrame(animate)
 
     if (isPaused) {
       lastTimeRef.current = time
+      updateMidiFeedback(midiFeedbackRef.current, lastBeatInfoRef.current)
       return
     }
 
@@ -146,50 +363,137 @@ export function Canvas({
 
     let audioFeatures: AudioFeatures = { ...defaultAudioFeatures }
     let beatInfo: BeatInfo = defaultBeatInfo
+    const now = performance.now()
+    const midiClock = midiClockRef.current
+    const hasAudio = micMode && inputStatus === 'on' && audioAnalyzer !== null
 
-    if (micMode && micStatus === 'on' && audioAnalyzer) {
-      // Update audio analyzer
-      audioAnalyzer.update()
+    if (tempoSource === 'midi') {
+      publishMidiClock(midiClock, now)
+    }
+
+    if (hasAudio && audioAnalyzer) {
+      // Analysis runs on the audio thread; just read its latest results
       audioFeatures = audioAnalyzer.getFeatures()
 
       // Get auto BPM
       const estimatedBPM = audioAnalyzer.getEstimatedBPM()
-      setAutoBPM(estimatedBPM)
-
-      // Create beat info from audio
-      beatInfo = {
-        phase: 0, // Not used in mic mode
-        intensity: audioFeatures.bass,
-        isOnset: audioAnalyzer.isCurrentlyOnset(),
-        bpm: estimatedBPM
+      setAutoBPM(estimatedBPM, audioAnalyzer.getTempoConfidence())
+
+      // Pull lock changes made by the detector itself back into the store
+      const analyzerLocked = audioAnalyzer.isLocked()
+      if (analyzerLocked !== analyzerLockRef.current) {
+        analyzerLockRef.current = analyzerLocked
+        setBpmLocked(analyzerLocked, estimatedBPM)
       }
+    }
+
+    const player = audioAnalyzer?.getFilePlayer()
+    const beatGrid = player?.getBeatGrid()
+    if (tempoSource === 'midi' && midiClock.isActive(now)) {
+      // External clock: tempo and phase come straight from the MIDI ticks
+      beatInfo = midiClock.update(now)
+    } else if (tempoSource === 'audio' && hasAudio && player && beatGrid) {
+      // Files with an analysed grid: beats come straight from the playback position
+      const position = player.getPosition()
+      beatInfo = beatGrid.getBeatInfo(position, gridPositionRef.current)
+      gridPositionRef.current = position
+    } else if (tempoSource === 'audio' && hasAudio && audioAnalyzer) {
+      // Phase-locked tracker follows detected onsets and predicts beats
+      beatInfo = beatTrackerRef.current.update(now, audioAnalyzer.getNewOnsetTime(), audioAnalyzer.getEstimatedBPM())
     } else {
       // Use manual beat clock
       beatInfo = beatClock.update()
+    }
 
-      // Simulate some audio features from beat
+    if (hasAudio) {
+      beatInfo = { ...beatInfo, intensity: audioFeatures.bass }
+    } else {
+      const previousPhase = lastBeatInfoRef.current.phase
+
+      // Simulate some audio features from beat: kick on every beat,
+      // snare on 2 and 4, hats on the offbeats
+      const isBackbeat = beatInfo.beatInBar % 2 === 1
+      const hatOnset = previousPhase < 0.5 && beatInfo.phase >= 0.5
+      const hat = beatInfo.phase >= 0.5 ? Math.max(0, 1 - (beatInfo.phase - 0.5) * 4) * 0.5 : 0
+      const snare = isBackbeat ? beatInfo.intensity : 0
+      // Timbre drifts brighter and darker over the bar
+      const barPhase = (beatInfo.beatInBar + beatInfo.phase) / 4
+      const centroid = 0.45 + Math.sin(barPhase * Math.PI * 2) * 0.1 + hat * 0.2
       audioFeatures = {
         ...defaultAudioFeatures,
         energy: beatInfo.intensity * 0.5,
         bass: beatInfo.intensity,
         mid: beatInfo.intensity * 0.7,
-        high: beatInfo.intensity * 0.3
+        high: beatInfo.intensity * 0.3,
+        kick: beatInfo.intensity,
+        snare,
+        hat,
+        kickOnset: beatInfo.isOnset,
+        snareOnset: beatInfo.isOnset && isBackbeat,
+        hatOnset,
+        centroid,
+        rolloff: Math.min(1, centroid + 0.1),
+        flatness: 0.2 + snare * 0.5,
+        flux: beatInfo.intensity * 0.8,
+        zcr: 0.3 + hat * 0.4,
+        loudness: 0.6 + beatInfo.intensity * 0.3
       }
     }
 
+    // Land a detected drop on its beat: the one just played if the drop was
+    // spotted right after it, otherwise the next one
+    if (audioFeatures.dropOnset) {
+      dropPendingRef.current = true
+    }
+    if (dropPendingRef.current && (beatInfo.isOnset || beatInfo.phase < DROP_BEAT_WINDOW)) {
+      dropPendingRef.current = false
+      beatInfo = { ...beatInfo, isDrop: true }
+    }
+
+    lastBeatInfoRef.current = beatInfo
+
+    // Fire queued scene switches on the quantize boundary
+    const onBoundary = quantizerRef.current.update(beatInfo)
+    if (beatInfo.isDrop && useStore.getState().autoSwitchOnDrop) {
+      // The drop is the biggest boundary of all
+      jumpToNextScene()
+    } else if (onBoundary && useStore.getState().pendingSceneIndex !== null) {
+      commitPendingScene()
+    }
+
     // Apply master intensity
     audioFeatures.energy *= masterIntensity
     audioFeatures.bass *= masterIntensity
     audioFeatures.mid *= masterIntensity
     audioFeatures.high *= masterIntensity
+    audioFeatures.kick *= masterIntensity
+    audioFeatures.snare *= masterIntensity
+    audioFeatures.hat *= masterIntensity
+    audioFeatures.flux *= masterIntensity
+    audioFeatures.loudness *= masterIntensity
+
+    // Harmonic color: the estimated key sets the hue of every scene
+    const harmonicHue = harmonicPaletteRef.current.update(deltaTime, beatInfo, audioFeatures)
+    sceneManager.setHueOverride(useStore.getState().harmonicColor ? harmonicHue : null)
 
     // Update audio features for equalizer
     onAudioFeaturesUpdate(audioFeatures)
 
+    updateMidiFeedback(midiFeedbackRef.current, beatInfo)
+
+    // Performance effects go on top; a frozen frame keeps the last scene render
+    const { heldFx, latchedFx } = useStore.getState()
+    const fx = performanceFxRef.current.update(deltaTime, activePerformanceFx(heldFx, latchedFx), beatInfo)
+    renderer.setPerformanceFx(fx)
+
     // Update and render scene
     sceneManager.update(time, deltaTime, beatInfo, audioFeatures)
-    sceneManager.render()
-  }, [isPaused, micMode, micStatus, masterIntensity, setAutoBPM, onAudioFeaturesUpdate])
+    if (fx.freeze) {
+      renderer.renderToScreen()
+    } else {
+      sceneManager.render()
+    }
+  }, [isPaused, micMode, inputStatus, tempoSource, masterIntensity, setAutoBPM, setBpmLocked, commitPendingScene, jumpToNextScene, onAudioFeaturesUpdate])
 
   // Start animation loop
   useEffect(() => {
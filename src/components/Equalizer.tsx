@@ -1,6 +1,7 @@
 import { useEffect, useRef } from 'react'
 import { useStore } from '../store/useStore'
 import { AudioFeatures } from '../scenes/types'
+import { BAND_COUNT } from '../audio/BandSpectrum'
 
 interface EqualizerProps {
   audioFeatures: AudioFeatures
@@ -9,31 +10,21 @@ interface EqualizerProps {
 export function Equalizer({ audioFeatures }: EqualizerProps) {
   const { showEqualizer, micMode } = useStore()
   const barsRef = useRef<HTMLDivElement[]>([])
-  const barCount = 48
+  // One bar per log-spaced band, so each octave gets the same width
+  const barCount = BAND_COUNT
 
   useEffect(() => {
     if (!showEqualizer) return
 
-    // Update bar heights based on spectrum data
-    const spectrum = audioFeatures.spectrum
-    const step = Math.floor(spectrum.length / barCount)
+    // Update bar heights based on band data
+    const bands = audioFeatures.bands
 
     for (let i = 0; i < barCount; i++) {
       const bar = barsRef.current[i]
       if (!bar) continue
 
-      // Average a range of frequencies for each bar
-      let sum = 0
-      for (let j = 0; j < step; j++) {
-        const idx = i * step + j
-        if (idx < spectrum.length) {
-          sum += spectrum[idx]
-        }
-      }
-      const avg = sum / step
-
-      // Scale height (spectrum values are 0-1)
-      const height = Math.max(2, avg * 70)
+      // Scale height (band values are 0-1)
+      const height = Math.max(2, (bands[i] ?? 0) * 70)
       bar.style.height = `${height}px`
     }
   }, [audioFeatures, showEqualizer])
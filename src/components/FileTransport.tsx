@@ -0,0 +1,87 @@
+import { useEffect, useState } from 'react'
+import { FilePlayer, PlaybackState } from '../audio/FilePlayer'
+
+const POLL_INTERVAL = 250 // ms
+
+interface FileTransportProps {
+  player: FilePlayer
+}
+
+function formatTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60)
+  const secs = Math.floor(seconds % 60)
+  return `${minutes}:${secs.toString().padStart(2, '0')}`
+}
+
+export function FileTransport({ player }: FileTransportProps) {
+  const [state, setState] = useState<PlaybackState>(() => player.getState())
+
+  // The player runs on the audio clock, so poll it for the UI
+  useEffect(() => {
+    setState(player.getState())
+    const interval = window.setInterval(() => {
+      setState(player.getState())
+    }, POLL_INTERVAL)
+
+    return () => clearInterval(interval)
+  }, [player])
+
+  const update = (action: () => void) => {
+    action()
+    setState(player.getState())
+  }
+
+  return (
+    <div className="file-transport">
+      <div className="file-transport-name" title={state.fileName}>
+        {state.fileName}
+      </div>
+
+      {state.gridStatus !== 'unavailable' && (
+        <div className="file-transport-grid">
+          {state.gridStatus === 'analysing' || state.gridBPM === null
+            ? 'Analysing beats…'
+            : `Beat grid · ${state.gridBPM.toFixed(1)} BPM`}
+        </div>
+      )}
+
+      <div className="file-transport-row">
+        <button
+          className="btn"
+          onClick={() => update(() => player.togglePlay())}
+          aria-label={state.isPlaying ? 'Pause' : 'Play'}
+        >
+          {state.isPlaying ? '❚❚' : '▶'}
+        </button>
+
+        <input
+          type="range"
+          min="0"
+          max={state.duration}
+          step="0.1"
+          value={state.position}
+          onChange={(e) => update(() => player.seek(parseFloat(e.target.value)))}
+        />
+
+        <span className="control-value">
+          {formatTime(state.position)} / {formatTime(state.duration)}
+        </span>
+      </div>
+
+      <div className="btn-group">
+        <button
+          className={`btn ${state.loop ? 'active' : ''}`}
+          onClick={() => update(() => player.setLoop(!state.loop))}
+        >
+          Loop
+        </button>
+        <button
+          className={`btn ${state.monitor ? 'active' : ''}`}
+          onClick={() => update(() => player.setMonitor(!state.monitor))}
+        >
+          Monitor
+        </button>
+      </div>
+    </div>
+  )
+}
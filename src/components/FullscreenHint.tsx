@@ -1,8 +1,9 @@
 import { useEffect, useState } from 'react'
 import { useStore } from '../store/useStore'
+import { chordLabel } from '../keyboard/keymap'
 
 export function FullscreenHint() {
-  const { showHint, hideHint, isFullscreen } = useStore()
+  const { showHint, hideHint, isFullscreen, keymap } = useStore()
   const [visible, setVisible] = useState(true)
 
   useEffect(() => {
@@ -33,9 +34,15 @@ export function FullscreenHint() {
     return null
   }
 
+  // Follow the keymap; an unbound action has nothing to show
+  const fullscreenKey = keymap.fullscreen[0]
+  const settingsKey = keymap.settings[0]
+
   return (
     <div className={`fullscreen-hint ${!visible ? 'hidden' : ''}`}>
-      Press <kbd>F</kbd> for fullscreen | <kbd>Tab</kbd> for settings
+      {fullscreenKey && <>Press <kbd>{chordLabel(fullscreenKey)}</kbd> for fullscreen</>}
+      {fullscreenKey && settingsKey && ' | '}
+      {settingsKey && <><kbd>{chordLabel(settingsKey)}</kbd> for settings</>}
     </div>
   )
 }
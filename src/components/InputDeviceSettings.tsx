@@ -0,0 +1,117 @@
+import { useEffect, useState } from 'react'
+import { useStore } from '../store/useStore'
+import { AudioAnalyzer, AudioInputDevice, InputLevel } from '../audio/AudioAnalyzer'
+import { InputChannel } from '../scenes/types'
+
+const METER_INTERVAL = 50 // ms
+
+interface InputDeviceSettingsProps {
+  audioAnalyzer: AudioAnalyzer
+  onEnableMic: () => Promise<void>
+}
+
+const channelLabels: Record<InputChannel, string> = {
+  mono: 'Mono',
+  left: 'Left',
+  right: 'Right'
+}
+
+export function InputDeviceSettings({ audioAnalyzer, onEnableMic }: InputDeviceSettingsProps) {
+  const {
+    micMode,
+    inputSource,
+    inputDeviceId,
+    setInputDeviceId,
+    inputChannel,
+    setInputChannel,
+    inputGain,
+    setInputGain
+  } = useStore()
+
+  const [devices, setDevices] = useState<AudioInputDevice[]>([])
+  const [level, setLevel] = useState<InputLevel>({ rms: 0, peak: 0, clipping: false })
+
+  // Enumerate inputs now and whenever devices are plugged in or removed
+  useEffect(() => {
+    const refresh = () => {
+      audioAnalyzer.listInputDevices().then(setDevices)
+    }
+    refresh()
+
+    if (!navigator.mediaDevices) return
+    navigator.mediaDevices.addEventListener('devicechange', refresh)
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refresh)
+  }, [audioAnalyzer, micMode])
+
+  // Level meter
+  useEffect(() => {
+    const interval = window.setInterval(() => {
+      setLevel({ ...audioAnalyzer.getInputLevel() })
+    }, METER_INTERVAL)
+
+    return () => clearInterval(interval)
+  }, [audioAnalyzer])
+
+  const handleDeviceChange = async (deviceId: string) => {
+    setInputDeviceId(deviceId)
+
+    // Switch the running microphone over to the new device
+    if (micMode && inputSource === 'mic') {
+      await onEnableMic()
+    }
+  }
+
+  return (
+    <>
+      <div className="control-row">
+        <label>Input Device</label>
+        <select value={inputDeviceId} onChange={(e) => handleDeviceChange(e.target.value)}>
+          <option value="">System Default</option>
+          {devices
+            .filter(device => device.deviceId && device.deviceId !== 'default')
+            .map(device => (
+              <option key={device.deviceId} value={device.deviceId}>{device.label}</option>
+            ))}
+        </select>
+      </div>
+
+      <div className="control-row">
+        <label>Channel</label>
+        <div className="quality-selector">
+          {(['mono', 'left', 'right'] as InputChannel[]).map((channel) => (
+            <button
+              key={channel}
+              className={`quality-btn ${inputChannel === channel ? 'active' : ''}`}
+              onClick={() => setInputChannel(channel)}
+            >
+              {channelLabels[channel]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="control-row">
+        <label>Input Gain</label>
+        <input
+          type="range"
+          min="-24"
+          max="24"
+          step="1"
+          value={inputGain}
+          onChange={(e) => setInputGain(parseFloat(e.target.value))}
+        />
+        <span className="control-value">{inputGain > 0 ? '+' : ''}{inputGain} dB</span>
+      </div>
+
+      <div className="control-row">
+        <div className="meter input-meter">
+          <span className="meter-label">Level</span>
+          <div className="meter-bar">
+            <div className="meter-fill" style={{ width: `${Math.min(1, level.peak) * 100}%` }} />
+          </div>
+          <span className={`clip-indicator ${level.clipping ? 'active' : ''}`}>CLIP</span>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,105 @@
+import { useEffect, useState } from 'react'
+import { useStore } from '../store/useStore'
+import {
+  KeyAction,
+  chordLabel,
+  defaultKeymap,
+  keyActionLabel,
+  keyActions,
+  keyChord,
+  parseKeymap
+} from '../keyboard/keymap'
+
+// Shortcut list with rebinding: click a key to remove it, + to add the next
+// key pressed. The keymap can be saved and loaded as JSON.
+export function KeymapSettings() {
+  const { keymap, bindKey, unbindKey, setKeymap } = useStore()
+  const [capturing, setCapturing] = useState<KeyAction | null>(null)
+  const [importError, setImportError] = useState<string | null>(null)
+
+  // Catch the next key before the shortcuts see it; Escape cancels
+  useEffect(() => {
+    if (!capturing) return
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault()
+      event.stopPropagation()
+
+      const chord = keyChord(event)
+      if (!chord) return
+      if (chord !== 'Escape') {
+        bindKey(capturing, chord)
+      }
+      setCapturing(null)
+    }
+
+    window.addEventListener('keydown', handleKeyDown, true)
+    return () => window.removeEventListener('keydown', handleKeyDown, true)
+  }, [capturing, bindKey])
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(keymap, null, 2)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'keymap.json'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    // Allow re-selecting the same file
+    e.target.value = ''
+    if (!file) return
+
+    try {
+      const imported = parseKeymap(JSON.parse(await file.text()))
+      if (imported) {
+        setKeymap(imported)
+        setImportError(null)
+      } else {
+        setImportError('No shortcuts found in that file')
+      }
+    } catch (err) {
+      console.error('Failed to import keymap:', err)
+      setImportError('Not a keymap file')
+    }
+  }
+
+  return (
+    <>
+      <div className="shortcuts-grid">
+        {keyActions.map((action) => (
+          <div className="shortcut" key={action}>
+            <span>{keyActionLabel(action)}</span>
+            <span className="shortcut-keys">
+              {keymap[action].map((chord) => (
+                <kbd key={chord} title="Click to remove" onClick={() => unbindKey(action, chord)}>
+                  {chordLabel(chord)}
+                </kbd>
+              ))}
+              <button
+                className={`shortcut-add ${capturing === action ? 'capturing' : ''}`}
+                onClick={() => setCapturing(capturing === action ? null : action)}
+              >
+                {capturing === action ? 'Press a key…' : '+'}
+              </button>
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {importError && <div className="keymap-error">{importError}</div>}
+
+      <div className="btn-group keymap-actions">
+        <button className="btn" onClick={handleExport}>Export</button>
+        <label className="btn file-picker">
+          Import
+          <input type="file" accept="application/json,.json" onChange={handleImport} />
+        </label>
+        <button className="btn" onClick={() => setKeymap(defaultKeymap)}>Default Keys</button>
+      </div>
+    </>
+  )
+}
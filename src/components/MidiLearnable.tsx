@@ -0,0 +1,34 @@
+import { ReactNode } from 'react'
+import { useStore } from '../store/useStore'
+import { MidiTarget, controlLabel, targetKey } from '../midi/MidiMapping'
+
+interface MidiLearnableProps {
+  target: MidiTarget
+  children: ReactNode
+}
+
+// In MIDI Learn mode, clicking the wrapped control picks it as the target for
+// the next MIDI message, and a badge shows what it is bound to
+export function MidiLearnable({ target, children }: MidiLearnableProps) {
+  const { midiLearn, midiLearnTarget, setMidiLearnTarget, midiMappings } = useStore()
+
+  if (!midiLearn) {
+    return <div className="midi-learnable">{children}</div>
+  }
+
+  const key = targetKey(target)
+  const selected = midiLearnTarget !== null && targetKey(midiLearnTarget) === key
+  const mapping = midiMappings.find(existing => targetKey(existing.target) === key)
+
+  return (
+    <div
+      className={`midi-learnable learning ${selected ? 'selected' : ''}`}
+      onClick={() => setMidiLearnTarget(selected ? null : target)}
+    >
+      {children}
+      <span className="midi-binding">
+        {selected ? 'Move a control…' : mapping ? controlLabel(mapping.control) : 'Unmapped'}
+      </span>
+    </div>
+  )
+}
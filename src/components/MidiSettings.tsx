@@ -0,0 +1,171 @@
+import { useStore } from '../store/useStore'
+import { MidiAccessStatus } from '../midi/MidiAccess'
+import {
+  MidiMapping,
+  controlLabel,
+  encoderLabels,
+  encoderModes,
+  isTrigger,
+  targetKey,
+  targetLabel
+} from '../midi/MidiMapping'
+import { MidiDeviceProfile, detectDeviceProfile, midiDeviceProfileLabels, midiDeviceProfiles } from '../midi/MidiFeedback'
+import { SceneParameter } from '../scenes/types'
+import { MidiLearnable } from './MidiLearnable'
+
+interface MidiSettingsProps {
+  sceneNames: string[]
+  sceneParameters: SceneParameter[][]
+}
+
+const midiStatusLabels: Record<MidiAccessStatus | 'off', string> = {
+  off: 'Off',
+  on: 'Active',
+  unsupported: 'Not Supported',
+  blocked: 'Blocked'
+}
+
+export function MidiSettings({ sceneNames, sceneParameters }: MidiSettingsProps) {
+  const {
+    midiEnabled,
+    setMidiEnabled,
+    midiStatus,
+    midiMappings,
+    updateMidiMapping,
+    removeMidiMapping,
+    midiLearn,
+    toggleMidiLearn,
+    midiOutputs,
+    midiOutputProfiles,
+    setMidiOutputProfile
+  } = useStore()
+
+  // Scene parameters read better by their label than their key
+  const getLabel = (mapping: MidiMapping): string => {
+    const target = mapping.target
+    if (target.kind !== 'sceneParam') return targetLabel(target)
+
+    const param = sceneParameters[sceneNames.indexOf(target.scene)]?.find(p => p.key === target.param)
+    return param ? `${target.scene} · ${param.label}` : targetLabel(target)
+  }
+
+  return (
+    <>
+      <div className="control-row">
+        <label>MIDI Input</label>
+        <div
+          className={`toggle ${midiEnabled ? 'active' : ''}`}
+          onClick={() => setMidiEnabled(!midiEnabled)}
+        />
+      </div>
+
+      {midiEnabled && (
+        <>
+          <div className="mic-status">
+            <span className={`mic-status-dot ${midiStatus}`} />
+            <span>MIDI: {midiStatusLabels[midiStatus]}</span>
+          </div>
+
+          <div className="control-row midi-learn-row">
+            <label>{midiLearn ? 'Click a control, then move a knob or hit a pad' : 'Mappings'}</label>
+            <button
+              className={`btn ${midiLearn ? 'active' : ''}`}
+              disabled={midiStatus !== 'on'}
+              onClick={toggleMidiLearn}
+            >
+              {midiLearn ? 'Done' : 'MIDI Learn'}
+            </button>
+          </div>
+
+          <MidiLearnable target={{ kind: 'beatPulse' }}>
+            <div className="control-row">
+              <label>Beat LED</label>
+              <span className="control-value">Pad that flashes on the beat</span>
+            </div>
+          </MidiLearnable>
+
+          {midiOutputs.map((name) => (
+            <div className="control-row" key={name}>
+              <label>LEDs &middot; {name}</label>
+              <select
+                value={midiOutputProfiles[name] ?? detectDeviceProfile(name)}
+                onChange={(e) => setMidiOutputProfile(name, e.target.value as MidiDeviceProfile)}
+              >
+                {midiDeviceProfiles.map((profile) => (
+                  <option key={profile} value={profile}>{midiDeviceProfileLabels[profile]}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+
+          {midiMappings.map((mapping) => (
+            <div className="midi-mapping" key={targetKey(mapping.target)}>
+              <div className="midi-mapping-header">
+                <span>{getLabel(mapping)}</span>
+                <span className="midi-mapping-control">{controlLabel(mapping.control)}</span>
+                <button className="midi-mapping-remove" onClick={() => removeMidiMapping(mapping.target)}>&times;</button>
+              </div>
+
+              {!isTrigger(mapping.target) && (
+                <>
+                  <div className="control-row">
+                    <label>Min</label>
+                    <input
+                      type="range"
+                      min="0"
+                      max="1"
+                      step="0.01"
+                      value={mapping.min}
+                      onChange={(e) => updateMidiMapping(mapping.target, { min: parseFloat(e.target.value) })}
+                    />
+                    <span className="control-value">{mapping.min.toFixed(2)}</span>
+                  </div>
+
+                  <div className="control-row">
+                    <label>Max</label>
+                    <input
+                      type="range"
+                      min="0"
+                      max="1"
+                      step="0.01"
+                      value={mapping.max}
+                      onChange={(e) => updateMidiMapping(mapping.target, { max: parseFloat(e.target.value) })}
+                    />
+                    <span className="control-value">{mapping.max.toFixed(2)}</span>
+                  </div>
+
+                  {mapping.control.type === 'cc' && (
+                    <div className="control-row">
+                      <label>Encoder</label>
+                      <div className="quality-selector">
+                        {encoderModes.map((mode) => (
+                          <button
+                            key={mode}
+                            className={`quality-btn ${mapping.encoder === mode ? 'active' : ''}`}
+                            onClick={() => updateMidiMapping(mapping.target, { encoder: mode })}
+                          >
+                            {encoderLabels[mode]}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {mapping.encoder === 'absolute' && (
+                    <div className="control-row">
+                      <label>Soft Takeover</label>
+                      <div
+                        className={`toggle ${mapping.softTakeover ? 'active' : ''}`}
+                        onClick={() => updateMidiMapping(mapping.target, { softTakeover: !mapping.softTakeover })}
+                      />
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          ))}
+        </>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,109 @@
+import { useStore } from '../store/useStore'
+import {
+  PerformanceFxType,
+  performanceFxTypes,
+  performanceFxLabels,
+  strobeRates,
+  strobeRateLabels
+} from '../renderer/PerformanceFx'
+import { MidiLearnable } from './MidiLearnable'
+
+// Hold and latch pads for each effect, plus how they fade and strobe
+export function PerformanceFxSettings() {
+  const {
+    heldFx,
+    holdFx,
+    latchedFx,
+    toggleFxLatch,
+    clearFx,
+    fxFadeIn,
+    setFxFadeIn,
+    fxFadeOut,
+    setFxFadeOut,
+    strobeRate,
+    setStrobeRate
+  } = useStore()
+
+  const release = (effect: PerformanceFxType) => {
+    if (useStore.getState().heldFx[effect]) {
+      holdFx(effect, false)
+    }
+  }
+
+  return (
+    <>
+      {performanceFxTypes.map((effect) => (
+        <div key={effect} className="control-row">
+          <label>{performanceFxLabels[effect]}</label>
+          <div className="fx-pad-controls">
+            <MidiLearnable target={{ kind: 'fxHold', effect }}>
+              <button
+                className={`quality-btn fx-hold-btn ${heldFx[effect] ? 'active' : ''}`}
+                onPointerDown={() => holdFx(effect, true)}
+                onPointerUp={() => release(effect)}
+                onPointerLeave={() => release(effect)}
+                onPointerCancel={() => release(effect)}
+              >
+                Hold
+              </button>
+            </MidiLearnable>
+            <MidiLearnable target={{ kind: 'fxLatch', effect }}>
+              <div
+                className={`toggle ${latchedFx[effect] ? 'active' : ''}`}
+                onClick={() => toggleFxLatch(effect)}
+                title="Latch"
+              />
+            </MidiLearnable>
+          </div>
+        </div>
+      ))}
+
+      <div className="control-row">
+        <label>Strobe Rate</label>
+        <div className="quality-selector">
+          {strobeRates.map((rate) => (
+            <button
+              key={rate}
+              className={`quality-btn ${strobeRate === rate ? 'active' : ''}`}
+              onClick={() => setStrobeRate(rate)}
+            >
+              {strobeRateLabels[rate]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="control-row">
+        <label>Fade In</label>
+        <input
+          type="range"
+          min="0"
+          max="2"
+          step="0.05"
+          value={fxFadeIn}
+          onChange={(e) => setFxFadeIn(parseFloat(e.target.value))}
+        />
+        <span className="control-value">{fxFadeIn.toFixed(2)}s</span>
+      </div>
+
+      <div className="control-row">
+        <label>Fade Out</label>
+        <input
+          type="range"
+          min="0"
+          max="2"
+          step="0.05"
+          value={fxFadeOut}
+          onChange={(e) => setFxFadeOut(parseFloat(e.target.value))}
+        />
+        <span className="control-value">{fxFadeOut.toFixed(2)}s</span>
+      </div>
+
+      <div className="btn-group">
+        <button className="btn" onClick={clearFx}>
+          Clear Effects
+        </button>
+      </div>
+    </>
+  )
+}
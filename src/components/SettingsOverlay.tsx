@@ -1,18 +1,43 @@
 import { useStore, Quality } from '../store/useStore'
-import { MicStatus } from '../scenes/types'
+import { InputSource, InputStatus, SceneParameter } from '../scenes/types'
 import { TapTempo } from '../audio/BeatClock'
+import { MIN_TEMPO, MAX_TEMPO } from '../audio/TempoEstimator'
+import { transitionTypes, transitionLabels } from '../renderer/SceneTransition'
+import { quantizeModes, quantizeLabels } from '../audio/BeatQuantizer'
+import { fftSizes } from '../audio/FrameAnalyzer'
+import { sectionLabels } from '../audio/StructureDetector'
+import { keyLabel } from '../audio/KeyEstimator'
+import { MidiClockState, tempoSources, tempoSourceLabels } from '../midi/MidiClock'
+import { FilePlayer, supportedAudioExtensions } from '../audio/FilePlayer'
+import { FileTransport } from './FileTransport'
+import { InputDeviceSettings } from './InputDeviceSettings'
+import { MidiLearnable } from './MidiLearnable'
+import { MidiSettings } from './MidiSettings'
+import { KeymapSettings } from './KeymapSettings'
+import { PerformanceFxSettings } from './PerformanceFxSettings'
+import { AudioAnalyzer } from '../audio/AudioAnalyzer'
 
 interface SettingsOverlayProps {
   sceneNames: string[]
+  sceneParameters: SceneParameter[][]
   onEnableMic: () => Promise<void>
   onDisableMic: () => void
+  onLoadFile: (file: File) => Promise<void>
+  onCaptureDisplay: () => Promise<void>
+  filePlayer: FilePlayer | null
+  audioAnalyzer: AudioAnalyzer | null
   tapTempo: TapTempo
 }
 
 export function SettingsOverlay({
   sceneNames,
+  sceneParameters,
   onEnableMic,
   onDisableMic,
+  onLoadFile,
+  onCaptureDisplay,
+  filePlayer,
+  audioAnalyzer,
   tapTempo
 }: SettingsOverlayProps) {
   const {
@@ -20,32 +45,73 @@ export function SettingsOverlay({
     closeSettings,
     currentSceneIndex,
     setCurrentSceneIndex,
+    pendingSceneIndex,
+    quantizeMode,
+    setQuantizeMode,
+    autoSwitchOnDrop,
+    setAutoSwitchOnDrop,
+    harmonicColor,
+    setHarmonicColor,
+    songSection,
+    sectionConfidence,
+    songKey,
+    keyMode,
+    keyConfidence,
     micMode,
     setMicMode,
-    micStatus,
+    inputStatus,
+    inputSource,
     bpm,
     setBpm,
+    tempoSource,
+    setTempoSource,
+    midiClock,
     autoBPM,
+    autoBPMConfidence,
+    autoLockBPM,
+    setAutoLockBPM,
     isBpmLocked,
     toggleBpmLock,
+    lockedBPM,
+    nudgeLockedBPM,
+    scaleLockedBPM,
+    resetDownbeat,
     quality,
     setQuality,
     masterIntensity,
     setMasterIntensity,
+    isPaused,
+    togglePause,
     sensitivity,
     setSensitivity,
     smoothing,
     setSmoothing,
+    fftSize,
+    setFFTSize,
+    lowCrossover,
+    highCrossover,
+    setLowCrossover,
+    setHighCrossover,
     showEqualizer,
-    toggleEqualizer
+    toggleEqualizer,
+    transitionType,
+    setTransitionType,
+    transitionDuration,
+    setTransitionDuration,
+    sceneParams,
+    setSceneParam,
+    resetSceneParams,
+    resetSettings
   } = useStore()
 
   if (!showSettings) {
     return null
   }
 
+  const isMicActive = micMode && inputSource === 'mic'
+
   const handleMicToggle = async () => {
-    if (micMode) {
+    if (isMicActive) {
       setMicMode(false)
       onDisableMic()
     } else {
@@ -60,16 +126,102 @@ export function SettingsOverlay({
     }
   }
 
-  const getMicStatusText = (status: MicStatus): string => {
+  const sceneKey = sceneNames[currentSceneIndex]
+  const currentParameters = sceneParameters[currentSceneIndex] || []
+
+  // Stored values take precedence over the scene's initial values
+  const getParamValue = (param: SceneParameter): number | string => {
+    const stored = sceneKey ? sceneParams[sceneKey]?.[param.key] : undefined
+    return stored !== undefined ? stored : param.value
+  }
+
+  const renderParamControl = (param: SceneParameter) => {
+    const value = getParamValue(param)
+
+    switch (param.type) {
+      case 'number':
+        return (
+          <>
+            <input
+              type="range"
+              min={param.min ?? 0}
+              max={param.max ?? 1}
+              step={param.step ?? 0.01}
+              value={value}
+              onChange={(e) => setSceneParam(sceneKey, param.key, parseFloat(e.target.value))}
+            />
+            <span className="control-value">
+              {Number(value).toFixed(param.step !== undefined && param.step >= 1 ? 0 : 2)}
+            </span>
+          </>
+        )
+      case 'color':
+        return (
+          <input
+            type="color"
+            value={String(value)}
+            onChange={(e) => setSceneParam(sceneKey, param.key, e.target.value)}
+          />
+        )
+      case 'select':
+        return (
+          <select
+            value={String(value)}
+            onChange={(e) => setSceneParam(sceneKey, param.key, e.target.value)}
+          >
+            {(param.options || []).map((option) => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        )
+    }
+  }
+
+  const handleResetAll = () => {
+    if (window.confirm('Reset all settings and scene parameters to defaults?')) {
+      resetSettings()
+    }
+  }
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (file) {
+      onLoadFile(file)
+    }
+    // Allow re-selecting the same file
+    e.target.value = ''
+  }
+
+  const getInputStatusText = (status: InputStatus): string => {
     switch (status) {
       case 'off': return 'Off'
       case 'requesting': return 'Requesting...'
+      case 'loading': return 'Loading...'
       case 'on': return 'Active'
       case 'blocked': return 'Blocked'
       case 'no-device': return 'No Device'
+      case 'no-audio': return 'No Audio Shared'
+      case 'error': return 'Error'
     }
   }
 
+  const getMidiClockText = (clock: MidiClockState): string => {
+    switch (clock.status) {
+      case 'off': return 'Off'
+      case 'unsupported': return 'Not Supported'
+      case 'blocked': return 'Blocked'
+      case 'waiting': return 'Waiting for Clock'
+      case 'stopped': return 'Stopped'
+      case 'running': return `${clock.bpm.toFixed(1)} BPM${clock.device ? ` from ${clock.device}` : ''}`
+    }
+  }
+
+  const inputSourceLabels: Record<InputSource, string> = {
+    mic: 'Mic',
+    file: 'File',
+    display: 'Tab Audio'
+  }
+
   return (
     <div className="settings-overlay" onClick={(e) => {
       if (e.target === e.currentTarget) closeSettings()
@@ -85,18 +237,108 @@ export function SettingsOverlay({
           <h3>Scene</h3>
           <div className="scene-grid">
             {sceneNames.map((name, index) => (
+              <MidiLearnable key={index} target={{ kind: 'scene', index }}>
+                <button
+                  className={`scene-btn ${currentSceneIndex === index ? 'active' : ''} ${pendingSceneIndex === index ? 'pending' : ''}`}
+                  onClick={() => setCurrentSceneIndex(index)}
+                >
+                  <span className="scene-number">{index + 1}</span>
+                  {name}
+                </button>
+              </MidiLearnable>
+            ))}
+          </div>
+
+          <div className="control-row quantize-row">
+            <label>Launch</label>
+            <div className="quality-selector">
+              {quantizeModes.map((mode) => (
+                <button
+                  key={mode}
+                  className={`quality-btn ${quantizeMode === mode ? 'active' : ''}`}
+                  onClick={() => setQuantizeMode(mode)}
+                >
+                  {quantizeLabels[mode]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="control-row">
+            <label>Switch on Drop</label>
+            <div
+              className={`toggle ${autoSwitchOnDrop ? 'active' : ''}`}
+              onClick={() => setAutoSwitchOnDrop(!autoSwitchOnDrop)}
+            />
+          </div>
+
+          <div className="control-row">
+            <label>Harmonic Color</label>
+            <div
+              className={`toggle ${harmonicColor ? 'active' : ''}`}
+              onClick={() => setHarmonicColor(!harmonicColor)}
+            />
+          </div>
+        </div>
+
+        {/* Transition */}
+        <div className="settings-section">
+          <h3>Transition</h3>
+
+          <div className="quality-selector transition-selector">
+            {transitionTypes.map((type) => (
               <button
-                key={index}
-                className={`scene-btn ${currentSceneIndex === index ? 'active' : ''}`}
-                onClick={() => setCurrentSceneIndex(index)}
+                key={type}
+                className={`quality-btn ${transitionType === type ? 'active' : ''}`}
+                onClick={() => setTransitionType(type)}
               >
-                <span className="scene-number">{index + 1}</span>
-                {name}
+                {transitionLabels[type]}
               </button>
             ))}
           </div>
+
+          <div className="control-row">
+            <label>Length</label>
+            <input
+              type="range"
+              min="0"
+              max="4"
+              step="0.25"
+              value={transitionDuration}
+              disabled={transitionType === 'cut'}
+              onChange={(e) => setTransitionDuration(parseFloat(e.target.value))}
+            />
+            <span className="control-value">{transitionDuration.toFixed(2)}s</span>
+          </div>
         </div>
 
+        {/* Scene Parameters */}
+        {sceneKey && currentParameters.length > 0 && (
+          <div className="settings-section">
+            <h3>Scene Parameters &middot; {sceneKey}</h3>
+            {currentParameters.map((param) => {
+              const row = (
+                <div className="control-row" key={`${sceneKey}-${param.key}`}>
+                  <label>{param.label}</label>
+                  {renderParamControl(param)}
+                </div>
+              )
+
+              // Colors have no single axis for a knob to drive
+              return param.type === 'color' ? row : (
+                <MidiLearnable key={`${sceneKey}-${param.key}`} target={{ kind: 'sceneParam', scene: sceneKey, param: param.key }}>
+                  {row}
+                </MidiLearnable>
+              )
+            })}
+            <div className="btn-group">
+              <button className="btn" onClick={() => resetSceneParams(sceneKey)}>
+                Reset Scene
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Audio Mode */}
         <div className="settings-section">
           <h3>Audio</h3>
@@ -104,17 +346,49 @@ export function SettingsOverlay({
           <div className="control-row">
             <label>Microphone Mode</label>
             <div
-              className={`toggle ${micMode ? 'active' : ''}`}
+              className={`toggle ${isMicActive ? 'active' : ''}`}
               onClick={handleMicToggle}
             />
           </div>
 
+          {inputSource === 'mic' && audioAnalyzer && (
+            <InputDeviceSettings audioAnalyzer={audioAnalyzer} onEnableMic={onEnableMic} />
+          )}
+
+          <div className="control-row">
+            <label>Audio File</label>
+            <label className="btn file-picker">
+              Load File
+              <input
+                type="file"
+                accept={['audio/*', ...supportedAudioExtensions].join(',')}
+                onChange={handleFileSelect}
+              />
+            </label>
+          </div>
+
+          <div className="control-row">
+            <label>Tab / System Audio</label>
+            <button
+              className={`btn ${micMode && inputSource === 'display' ? 'active' : ''}`}
+              onClick={onCaptureDisplay}
+            >
+              Capture
+            </button>
+          </div>
+
           <div className="mic-status">
-            <span className={`mic-status-dot ${micStatus}`} />
-            <span>Mic: {getMicStatusText(micStatus)}</span>
+            <span className={`mic-status-dot ${inputStatus}`} />
+            <span>
+              {inputSourceLabels[inputSource]}: {getInputStatusText(inputStatus)}
+            </span>
           </div>
 
-          {micMode && micStatus === 'on' && (
+          {inputSource === 'file' && filePlayer && (
+            <FileTransport player={filePlayer} />
+          )}
+
+          {micMode && inputStatus === 'on' && (
             <>
               <div className="control-row">
                 <label>Sensitivity</label>
@@ -142,10 +416,54 @@ export function SettingsOverlay({
                 <span className="control-value">{smoothing.toFixed(2)}</span>
               </div>
 
+              <div className="control-row">
+                <label>FFT Size</label>
+                <div className="quality-selector">
+                  {fftSizes.map((size) => (
+                    <button
+                      key={size}
+                      className={`quality-btn ${fftSize === size ? 'active' : ''}`}
+                      onClick={() => setFFTSize(size)}
+                    >
+                      {size}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="control-row">
+                <label>Bass / Mid</label>
+                <input
+                  type="range"
+                  min="40"
+                  max="500"
+                  step="10"
+                  value={lowCrossover}
+                  onChange={(e) => setLowCrossover(parseFloat(e.target.value))}
+                />
+                <span className="control-value">{lowCrossover} Hz</span>
+              </div>
+
+              <div className="control-row">
+                <label>Mid / High</label>
+                <input
+                  type="range"
+                  min="1000"
+                  max="10000"
+                  step="100"
+                  value={highCrossover}
+                  onChange={(e) => setHighCrossover(parseFloat(e.target.value))}
+                />
+                <span className="control-value">{(highCrossover / 1000).toFixed(1)} kHz</span>
+              </div>
+
               <div className="control-row">
                 <label>Auto BPM</label>
                 <span className="control-value" style={{ fontSize: '18px', fontWeight: 'bold' }}>
-                  {autoBPM}
+                  {isBpmLocked ? lockedBPM.toFixed(1) : autoBPM.toFixed(1)}
+                </span>
+                <span className="bpm-confidence" title="Tempo confidence">
+                  {Math.round(autoBPMConfidence * 100)}%
                 </span>
                 <button
                   className={`btn ${isBpmLocked ? 'active' : ''}`}
@@ -156,6 +474,50 @@ export function SettingsOverlay({
                 </button>
               </div>
 
+              <div className="control-row">
+                <label>Auto Lock</label>
+                <div
+                  className={`toggle ${autoLockBPM ? 'active' : ''}`}
+                  onClick={() => setAutoLockBPM(!autoLockBPM)}
+                />
+              </div>
+
+              {isBpmLocked && (
+                <div className="btn-group bpm-nudge">
+                  <button className="btn" onClick={() => nudgeLockedBPM(-1)}>-1</button>
+                  <button className="btn" onClick={() => nudgeLockedBPM(-0.1)}>-0.1</button>
+                  <button className="btn" onClick={() => nudgeLockedBPM(0.1)}>+0.1</button>
+                  <button className="btn" onClick={() => nudgeLockedBPM(1)}>+1</button>
+                  <button className="btn" onClick={() => scaleLockedBPM(0.5)}>&divide;2</button>
+                  <button className="btn" onClick={() => scaleLockedBPM(2)}>&times;2</button>
+                </div>
+              )}
+
+              <div className="control-row">
+                <label>Section</label>
+                <span className="control-value">{sectionLabels[songSection]}</span>
+                <span className="bpm-confidence" title="Section confidence">
+                  {Math.round(sectionConfidence * 100)}%
+                </span>
+              </div>
+
+              <div className="control-row">
+                <label>Key</label>
+                <span className="control-value">{songKey === null ? '—' : keyLabel(songKey, keyMode)}</span>
+                {songKey !== null && (
+                  <span className="bpm-confidence" title="Key confidence">
+                    {Math.round(keyConfidence * 100)}%
+                  </span>
+                )}
+              </div>
+
+              <div className="control-row">
+                <label>Downbeat</label>
+                <button className="btn" onClick={resetDownbeat}>
+                  This Is The One
+                </button>
+              </div>
+
               <div className="control-row">
                 <label>Equalizer</label>
                 <div
@@ -167,8 +529,35 @@ export function SettingsOverlay({
           )}
         </div>
 
+        {/* Tempo Source */}
+        <div className="settings-section">
+          <h3>Tempo</h3>
+
+          <div className="control-row">
+            <label>Source</label>
+            <div className="quality-selector">
+              {tempoSources.map((source) => (
+                <button
+                  key={source}
+                  className={`quality-btn ${tempoSource === source ? 'active' : ''}`}
+                  onClick={() => setTempoSource(source)}
+                >
+                  {tempoSourceLabels[source]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {tempoSource === 'midi' && (
+            <div className="mic-status">
+              <span className={`mic-status-dot ${midiClock.status}`} />
+              <span>MIDI Clock: {getMidiClockText(midiClock)}</span>
+            </div>
+          )}
+        </div>
+
         {/* Manual BPM Controls */}
-        {!micMode && (
+        {(!micMode || tempoSource === 'manual') && (
           <div className="settings-section">
             <h3>Manual BPM</h3>
 
@@ -176,8 +565,8 @@ export function SettingsOverlay({
               <label>BPM</label>
               <input
                 type="range"
-                min="120"
-                max="190"
+                min={MIN_TEMPO}
+                max={MAX_TEMPO}
                 step="1"
                 value={bpm}
                 onChange={(e) => setBpm(parseInt(e.target.value))}
@@ -186,8 +575,13 @@ export function SettingsOverlay({
             </div>
 
             <div className="btn-group">
-              <button className="btn" onClick={handleTapTempo}>
-                Tap Tempo
+              <MidiLearnable target={{ kind: 'tapTempo' }}>
+                <button className="btn" onClick={handleTapTempo}>
+                  Tap Tempo
+                </button>
+              </MidiLearnable>
+              <button className="btn" onClick={resetDownbeat}>
+                Downbeat
               </button>
               <button className="btn" onClick={() => setBpm(140)}>140</button>
               <button className="btn" onClick={() => setBpm(160)}>160</button>
@@ -216,49 +610,54 @@ export function SettingsOverlay({
             </div>
           </div>
 
-          <div className="control-row">
-            <label>Intensity</label>
-            <input
-              type="range"
-              min="0"
-              max="2"
-              step="0.1"
-              value={masterIntensity}
-              onChange={(e) => setMasterIntensity(parseFloat(e.target.value))}
-            />
-            <span className="control-value">{masterIntensity.toFixed(1)}</span>
+          <MidiLearnable target={{ kind: 'masterIntensity' }}>
+            <div className="control-row">
+              <label>Intensity</label>
+              <input
+                type="range"
+                min="0"
+                max="2"
+                step="0.1"
+                value={masterIntensity}
+                onChange={(e) => setMasterIntensity(parseFloat(e.target.value))}
+              />
+              <span className="control-value">{masterIntensity.toFixed(1)}</span>
+            </div>
+          </MidiLearnable>
+
+          <MidiLearnable target={{ kind: 'pause' }}>
+            <div className="control-row">
+              <label>Pause</label>
+              <div
+                className={`toggle ${isPaused ? 'active' : ''}`}
+                onClick={togglePause}
+              />
+            </div>
+          </MidiLearnable>
+
+          <div className="btn-group">
+            <button className="btn" onClick={handleResetAll}>
+              Reset All Settings
+            </button>
           </div>
         </div>
 
+        {/* Performance FX */}
+        <div className="settings-section">
+          <h3>Performance FX</h3>
+          <PerformanceFxSettings />
+        </div>
+
+        {/* MIDI Controllers */}
+        <div className="settings-section">
+          <h3>MIDI</h3>
+          <MidiSettings sceneNames={sceneNames} sceneParameters={sceneParameters} />
+        </div>
+
         {/* Keyboard Shortcuts */}
         <div className="settings-section">
           <h3>Keyboard Shortcuts</h3>
-          <div className="shortcuts-grid">
-            <div className="shortcut">
-              <span>Scene 1-9</span>
-              <kbd>1-9</kbd>
-            </div>
-            <div className="shortcut">
-              <span>Next Scene</span>
-              <kbd>N</kbd>
-            </div>
-            <div className="shortcut">
-              <span>Prev Scene</span>
-              <kbd>P</kbd>
-            </div>
-            <div className="shortcut">
-              <span>Fullscreen</span>
-              <kbd>F</kbd>
-            </div>
-            <div className="shortcut">
-              <span>Pause</span>
-              <kbd>Space</kbd>
-            </div>
-            <div className="shortcut">
-              <span>Settings</span>
-              <kbd>Tab</kbd>
-            </div>
-          </div>
+          <KeymapSettings />
         </div>
       </div>
     </div>
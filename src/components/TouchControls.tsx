@@ -1,14 +1,39 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
 import { useStore } from '../store/useStore'
 import { useFullscreen } from '../hooks/useFullscreen'
+import { PerformanceFxType, performanceFxTypes, performanceFxLabels } from '../renderer/PerformanceFx'
 
 const HIDE_DELAY = 3000
+const LATCH_TAP = 250 // ms; a shorter press latches the effect instead of holding it
+
+const fxIcons: Record<PerformanceFxType, string> = {
+  blackout: '■',
+  whiteout: '□',
+  strobe: '↯',
+  invert: '◐',
+  freeze: '❄'
+}
 
 export function TouchControls() {
-  const { nextScene, prevScene, toggleSettings, currentSceneIndex, sceneCount, isFullscreen } = useStore()
+  const {
+    nextScene,
+    prevScene,
+    toggleSettings,
+    currentSceneIndex,
+    pendingSceneIndex,
+    cancelPendingScene,
+    sceneCount,
+    isFullscreen,
+    heldFx,
+    latchedFx,
+    holdFx,
+    toggleFxLatch
+  } = useStore()
   const { toggleFullscreen } = useFullscreen()
   const [visible, setVisible] = useState(false)
   const hideTimeoutRef = useRef<number | null>(null)
+  // Effect pad being pressed and when the press started
+  const fxPressRef = useRef<{ effect: PerformanceFxType, start: number } | null>(null)
 
   const showControls = useCallback(() => {
     setVisible(true)
@@ -62,6 +87,12 @@ export function TouchControls() {
     showControls()
   }
 
+  const handleCancelPending = (e: React.MouseEvent | React.TouchEvent) => {
+    e.stopPropagation()
+    cancelPendingScene()
+    showControls()
+  }
+
   const handleSettings = (e: React.MouseEvent | React.TouchEvent) => {
     e.stopPropagation()
     toggleSettings()
@@ -73,6 +104,28 @@ export function TouchControls() {
     showControls()
   }
 
+  // Effects are momentary while pressed; a quick tap latches them on or off
+  const handleFxDown = (effect: PerformanceFxType) => (e: React.PointerEvent) => {
+    e.stopPropagation()
+    e.currentTarget.setPointerCapture(e.pointerId)
+    fxPressRef.current = { effect, start: performance.now() }
+    holdFx(effect, true)
+    showControls()
+  }
+
+  const handleFxUp = (e: React.PointerEvent) => {
+    e.stopPropagation()
+    const press = fxPressRef.current
+    if (!press) return
+
+    fxPressRef.current = null
+    holdFx(press.effect, false)
+    if (e.type === 'pointerup' && performance.now() - press.start < LATCH_TAP) {
+      toggleFxLatch(press.effect)
+    }
+    showControls()
+  }
+
   return (
     <div className={`touch-controls ${visible ? 'visible' : ''}`}>
       {/* Scene navigation */}
@@ -89,6 +142,17 @@ export function TouchControls() {
         <span className="touch-scene-indicator">
           {currentSceneIndex + 1} / {sceneCount}
         </span>
+
+        {/* Queued switch waiting for the quantize boundary - tap to cancel */}
+        {pendingSceneIndex !== null && (
+          <span
+            className="touch-pending-indicator"
+            onClick={handleCancelPending}
+            onTouchEnd={handleCancelPending}
+          >
+            → {pendingSceneIndex + 1}
+          </span>
+        )}
         
         <button 
           className="touch-btn touch-btn-nav" 
@@ -100,6 +164,22 @@ export function TouchControls() {
         </button>
       </div>
 
+      {/* Performance FX: hold for momentary, tap to latch */}
+      <div className="touch-controls-fx">
+        {performanceFxTypes.map((effect) => (
+          <button
+            key={effect}
+            className={`touch-btn touch-btn-fx ${heldFx[effect] || latchedFx[effect] ? 'active' : ''}`}
+            onPointerDown={handleFxDown(effect)}
+            onPointerUp={handleFxUp}
+            onPointerCancel={handleFxUp}
+            aria-label={performanceFxLabels[effect]}
+          >
+            {fxIcons[effect]}
+          </button>
+        ))}
+      </div>
+
       {/* Fullscreen button */}
       <button 
         className="touch-btn touch-btn-settings" 
@@ -1,106 +1,174 @@
-import { useEffect, useCallback } from 'react'
+import { useEffect, useCallback, useMemo, useRef } from 'react'
 import { useStore } from '../store/useStore'
 import { useFullscreen } from './useFullscreen'
+import { TapTempo } from '../audio/BeatClock'
+import {
+  KeyAction,
+  KeyCommand,
+  chordLookup,
+  holdCommands,
+  keyChord,
+  latchCommands,
+  repeatCommands,
+  sceneIndexOf
+} from '../keyboard/keymap'
+import { PerformanceFxType } from '../renderer/PerformanceFx'
 
 interface UseKeyboardOptions {
   sceneCount: number
+  getTapTempo: () => TapTempo | null
 }
 
-export function useKeyboard({ sceneCount }: UseKeyboardOptions) {
-  const {
-    setCurrentSceneIndex,
-    nextScene,
-    prevScene,
-    togglePause,
-    toggleSettings,
-    closeSettings,
-    showSettings,
-    hideHint
-  } = useStore()
+const INTENSITY_STEP = 0.1
+const BPM_STEP = 1          // manual BPM
+const LOCKED_BPM_STEP = 0.1 // a locked tempo only needs fine-tuning
 
+// Runs the keymap's actions; hold actions (blackout, strobe, freeze...) last
+// as long as their key is down
+export function useKeyboard({ sceneCount, getTapTempo }: UseKeyboardOptions) {
+  const keymap = useStore((state) => state.keymap)
   const { toggleFullscreen } = useFullscreen()
 
-  const handleKeyDown = useCallback((event: KeyboardEvent) => {
-    // Don't handle if typing in an input
-    if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) {
+  const lookup = useMemo(() => chordLookup(keymap), [keymap])
+
+  // Physical key -> effect it holds, so releasing works even if Shift went first
+  const heldRef = useRef<Map<string, PerformanceFxType>>(new Map())
+
+  const runCommand = useCallback((command: KeyCommand) => {
+    const state = useStore.getState()
+    const latchEffect = latchCommands[command]
+    if (latchEffect) {
+      state.toggleFxLatch(latchEffect)
       return
     }
 
-    // Hide hint on any key
-    hideHint()
-
-    switch (event.key.toLowerCase()) {
-      // Scene selection (1-9)
-      case '1':
-      case '2':
-      case '3':
-      case '4':
-      case '5':
-      case '6':
-      case '7':
-      case '8':
-      case '9':
-        const sceneIndex = parseInt(event.key) - 1
-        if (sceneIndex < sceneCount) {
-          setCurrentSceneIndex(sceneIndex)
+    switch (command) {
+      case 'nextScene':
+        state.nextScene()
+        break
+      case 'prevScene':
+        state.prevScene()
+        break
+      case 'cancelPendingScene':
+        state.cancelPendingScene()
+        break
+      case 'downbeat':
+        state.resetDownbeat()
+        break
+      case 'tapTempo': {
+        const bpm = getTapTempo()?.tap()
+        if (bpm) {
+          state.setBpm(bpm)
         }
         break
-
-      // Next scene
-      case 'n':
-      case 'arrowright':
-        nextScene()
+      }
+      case 'bpmUp':
+      case 'bpmDown': {
+        const direction = command === 'bpmUp' ? 1 : -1
+        if (state.isBpmLocked) {
+          state.nudgeLockedBPM(direction * LOCKED_BPM_STEP)
+        } else {
+          state.setBpm(state.bpm + direction * BPM_STEP)
+        }
         break
-
-      // Previous scene
-      case 'p':
-      case 'arrowleft':
-        prevScene()
+      }
+      case 'intensityUp':
+        state.setMasterIntensity(Math.round((state.masterIntensity + INTENSITY_STEP) * 10) / 10)
         break
-
-      // Fullscreen
-      case 'f':
+      case 'intensityDown':
+        state.setMasterIntensity(Math.round((state.masterIntensity - INTENSITY_STEP) * 10) / 10)
+        break
+      case 'clearFx':
+        state.clearFx()
+        break
+      case 'transitionType':
+        state.cycleTransitionType()
+        break
+      case 'transitionShorter':
+        state.setTransitionDuration(state.transitionDuration - 0.25)
+        break
+      case 'transitionLonger':
+        state.setTransitionDuration(state.transitionDuration + 0.25)
+        break
+      case 'fullscreen':
         toggleFullscreen()
         break
-
-      // Pause
-      case ' ':
-        event.preventDefault()
-        togglePause()
+      case 'pause':
+        state.togglePause()
         break
-
-      // Toggle settings
-      case 'tab':
-      case 'h':
-        event.preventDefault()
-        toggleSettings()
+      case 'settings':
+        state.toggleSettings()
         break
-
-      // Close settings
-      case 'escape':
-        if (showSettings) {
-          closeSettings()
+      case 'closeSettings':
+        if (state.showSettings) {
+          state.closeSettings()
         }
         break
     }
-  }, [
-    sceneCount,
-    setCurrentSceneIndex,
-    nextScene,
-    prevScene,
-    togglePause,
-    toggleSettings,
-    closeSettings,
-    showSettings,
-    toggleFullscreen,
-    hideHint
-  ])
+  }, [getTapTempo, toggleFullscreen])
+
+  const runAction = useCallback((action: KeyAction) => {
+    const sceneIndex = sceneIndexOf(action)
+    if (sceneIndex === null) {
+      runCommand(action as KeyCommand)
+    } else if (sceneIndex < sceneCount) {
+      useStore.getState().setCurrentSceneIndex(sceneIndex)
+    }
+  }, [sceneCount, runCommand])
+
+  const handleKeyDown = useCallback((event: KeyboardEvent) => {
+    // Don't handle if typing in an input
+    if (event.target instanceof HTMLInputElement ||
+        event.target instanceof HTMLTextAreaElement ||
+        event.target instanceof HTMLSelectElement) {
+      return
+    }
+
+    // Hide hint on any key
+    useStore.getState().hideHint()
+
+    const chord = keyChord(event)
+    const action = chord ? lookup.get(chord) : undefined
+    if (!action) return
+
+    event.preventDefault()
+    const command = action as KeyCommand
+    if (holdCommands.includes(command)) {
+      if (!event.repeat) {
+        heldRef.current.set(event.code, command as PerformanceFxType)
+        useStore.getState().holdFx(command as PerformanceFxType, true)
+      }
+      return
+    }
+    if (event.repeat && !repeatCommands.includes(command)) return
+
+    runAction(action)
+  }, [lookup, runAction])
+
+  const handleKeyUp = useCallback((event: KeyboardEvent) => {
+    const effect = heldRef.current.get(event.code)
+    if (!effect) return
+
+    heldRef.current.delete(event.code)
+    useStore.getState().holdFx(effect, false)
+  }, [])
+
+  // Key-ups are lost when the window loses focus; let go of everything
+  const handleBlur = useCallback(() => {
+    if (heldRef.current.size === 0) return
+    heldRef.current.clear()
+    useStore.getState().releaseHeldFx()
+  }, [])
 
   useEffect(() => {
     window.addEventListener('keydown', handleKeyDown)
+    window.addEventListener('keyup', handleKeyUp)
+    window.addEventListener('blur', handleBlur)
 
     return () => {
       window.removeEventListener('keydown', handleKeyDown)
+      window.removeEventListener('keyup', handleKeyUp)
+      window.removeEventListener('blur', handleBlur)
     }
-  }, [handleKeyDown])
+  }, [handleKeyDown, handleKeyUp, handleBlur])
 }
@@ -0,0 +1,172 @@
+import { useEffect, useRef } from 'react'
+import { useStore } from '../store/useStore'
+import { TapTempo } from '../audio/BeatClock'
+import { requestMidiAccess } from '../midi/MidiAccess'
+import { MidiController, MidiTargetHandler } from '../midi/MidiController'
+import { MidiTarget } from '../midi/MidiMapping'
+import { SceneParameter } from '../scenes/types'
+import { clamp } from '../utils/math'
+
+interface UseMidiControllerOptions {
+  sceneNames: string[]
+  sceneParameters: SceneParameter[][]
+  getTapTempo: () => TapTempo | null
+}
+
+const MAX_INTENSITY = 2
+
+// Connects MIDI controllers to the app through the stored mappings, and
+// binds new ones while MIDI Learn has a target
+export function useMidiController({ sceneNames, sceneParameters, getTapTempo }: UseMidiControllerOptions) {
+  const midiEnabled = useStore((state) => state.midiEnabled)
+  const midiMappings = useStore((state) => state.midiMappings)
+  const midiLearnTarget = useStore((state) => state.midiLearnTarget)
+
+  // The handler outlives renders; read the latest scenes through refs
+  const scenesRef = useRef({ sceneNames, sceneParameters, getTapTempo })
+  scenesRef.current = { sceneNames, sceneParameters, getTapTempo }
+
+  const controllerRef = useRef<MidiController | null>(null)
+  if (!controllerRef.current) {
+    controllerRef.current = new MidiController(createHandler(() => scenesRef.current))
+  }
+
+  useEffect(() => {
+    const controller = controllerRef.current!
+    const { setMidiStatus } = useStore.getState()
+    if (!midiEnabled) {
+      setMidiStatus('off')
+      return
+    }
+
+    let cancelled = false
+    requestMidiAccess().then((result) => {
+      if (cancelled) return
+      setMidiStatus(result.status)
+      if (result.status === 'on') {
+        controller.attach(result.access)
+      }
+    })
+
+    return () => {
+      cancelled = true
+      controller.detach()
+    }
+  }, [midiEnabled])
+
+  useEffect(() => {
+    controllerRef.current!.setMappings(midiMappings)
+  }, [midiMappings])
+
+  useEffect(() => {
+    const controller = controllerRef.current!
+    if (!midiLearnTarget) {
+      controller.cancelLearn()
+      return
+    }
+
+    controller.startLearn(midiLearnTarget, (mapping) => {
+      const { setMidiMapping, setMidiLearnTarget } = useStore.getState()
+      setMidiMapping(mapping)
+      setMidiLearnTarget(null)
+    })
+    return () => controller.cancelLearn()
+  }, [midiLearnTarget])
+}
+
+interface HandlerScenes {
+  sceneNames: string[]
+  sceneParameters: SceneParameter[][]
+  getTapTempo: () => TapTempo | null
+}
+
+function findParameter(scenes: HandlerScenes, scene: string, key: string): SceneParameter | undefined {
+  const index = scenes.sceneNames.indexOf(scene)
+  return index < 0 ? undefined : scenes.sceneParameters[index]?.find(param => param.key === key)
+}
+
+function createHandler(getScenes: () => HandlerScenes): MidiTargetHandler {
+  const getValue = (target: MidiTarget): number | null => {
+    const state = useStore.getState()
+    switch (target.kind) {
+      case 'masterIntensity':
+        return state.masterIntensity / MAX_INTENSITY
+      case 'sceneParam': {
+        const param = findParameter(getScenes(), target.scene, target.param)
+        if (!param) return null
+
+        const value = state.sceneParams[target.scene]?.[target.param] ?? param.value
+        if (param.type === 'number') {
+          const min = param.min ?? 0
+          const max = param.max ?? 1
+          return max === min ? 0 : clamp((Number(value) - min) / (max - min), 0, 1)
+        }
+        if (param.type === 'select') {
+          const options = param.options || []
+          return options.length < 2 ? 0 : Math.max(0, options.indexOf(String(value))) / (options.length - 1)
+        }
+        return null
+      }
+      default:
+        return null
+    }
+  }
+
+  const setValue = (target: MidiTarget, share: number): void => {
+    const state = useStore.getState()
+    switch (target.kind) {
+      case 'masterIntensity':
+        state.setMasterIntensity(share * MAX_INTENSITY)
+        break
+      case 'sceneParam': {
+        const param = findParameter(getScenes(), target.scene, target.param)
+        if (param?.type === 'number') {
+          const min = param.min ?? 0
+          const max = param.max ?? 1
+          const step = param.step ?? 0.01
+          const value = Math.round((min + share * (max - min)) / step) * step
+          state.setSceneParam(target.scene, target.param, clamp(value, min, max))
+        } else if (param?.type === 'select' && param.options?.length) {
+          const index = Math.round(share * (param.options.length - 1))
+          state.setSceneParam(target.scene, target.param, param.options[index])
+        }
+        break
+      }
+    }
+  }
+
+  const trigger = (target: MidiTarget): void => {
+    const state = useStore.getState()
+    switch (target.kind) {
+      case 'scene':
+        if (target.index < state.sceneCount) {
+          state.setCurrentSceneIndex(target.index)
+        }
+        break
+      case 'tapTempo': {
+        const bpm = getScenes().getTapTempo()?.tap()
+        if (bpm) {
+          state.setBpm(bpm)
+        }
+        break
+      }
+      case 'pause':
+        state.togglePause()
+        break
+      case 'fxHold':
+        state.holdFx(target.effect, true)
+        break
+      case 'fxLatch':
+        state.toggleFxLatch(target.effect)
+        break
+    }
+  }
+
+  const release = (target: MidiTarget): void => {
+    if (target.kind === 'fxHold') {
+      useStore.getState().holdFx(target.effect, false)
+    }
+  }
+
+  return { getValue, setValue, trigger, release }
+}
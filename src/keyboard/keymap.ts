@@ -0,0 +1,263 @@
+import { PerformanceFxType } from '../renderer/PerformanceFx'
+
+// Scenes reachable from the keyboard: 1-9, then Shift+1-9 for the next bank
+export const SCENE_BANK_SIZE = 9
+export const SCENE_BANKS = 2
+
+export type SceneKeyAction = `scene-${number}`
+
+export type KeyCommand =
+  | 'nextScene'
+  | 'prevScene'
+  | 'cancelPendingScene'
+  | 'downbeat'
+  | 'tapTempo'
+  | 'bpmUp'
+  | 'bpmDown'
+  | 'intensityUp'
+  | 'intensityDown'
+  | 'blackout'
+  | 'whiteout'
+  | 'strobe'
+  | 'invert'
+  | 'freeze'
+  | 'blackoutLatch'
+  | 'whiteoutLatch'
+  | 'strobeLatch'
+  | 'invertLatch'
+  | 'freezeLatch'
+  | 'clearFx'
+  | 'transitionType'
+  | 'transitionShorter'
+  | 'transitionLonger'
+  | 'fullscreen'
+  | 'pause'
+  | 'settings'
+  | 'closeSettings'
+
+export type KeyAction = KeyCommand | SceneKeyAction
+
+export const keyCommands: KeyCommand[] = [
+  'nextScene',
+  'prevScene',
+  'cancelPendingScene',
+  'downbeat',
+  'tapTempo',
+  'bpmUp',
+  'bpmDown',
+  'intensityUp',
+  'intensityDown',
+  'blackout',
+  'whiteout',
+  'strobe',
+  'invert',
+  'freeze',
+  'blackoutLatch',
+  'whiteoutLatch',
+  'strobeLatch',
+  'invertLatch',
+  'freezeLatch',
+  'clearFx',
+  'transitionType',
+  'transitionShorter',
+  'transitionLonger',
+  'fullscreen',
+  'pause',
+  'settings',
+  'closeSettings'
+]
+
+export const keyCommandLabels: Record<KeyCommand, string> = {
+  nextScene: 'Next Scene',
+  prevScene: 'Prev Scene',
+  cancelPendingScene: 'Cancel Queued Scene',
+  downbeat: 'Downbeat',
+  tapTempo: 'Tap Tempo',
+  bpmUp: 'BPM Nudge Up',
+  bpmDown: 'BPM Nudge Down',
+  intensityUp: 'Intensity Up',
+  intensityDown: 'Intensity Down',
+  blackout: 'Blackout (hold)',
+  whiteout: 'Whiteout (hold)',
+  strobe: 'Strobe (hold)',
+  invert: 'Invert (hold)',
+  freeze: 'Freeze (hold)',
+  blackoutLatch: 'Blackout (latch)',
+  whiteoutLatch: 'Whiteout (latch)',
+  strobeLatch: 'Strobe (latch)',
+  invertLatch: 'Invert (latch)',
+  freezeLatch: 'Freeze (latch)',
+  clearFx: 'Clear Effects',
+  transitionType: 'Transition Type',
+  transitionShorter: 'Shorter Transition',
+  transitionLonger: 'Longer Transition',
+  fullscreen: 'Fullscreen',
+  pause: 'Pause',
+  settings: 'Settings',
+  closeSettings: 'Close Settings'
+}
+
+// Effects on only while the key is down; named after the effect they hold
+export const holdCommands: KeyCommand[] = ['blackout', 'whiteout', 'strobe', 'invert', 'freeze']
+
+// Effects each press turns on or off
+export const latchCommands: Partial<Record<KeyCommand, PerformanceFxType>> = {
+  blackoutLatch: 'blackout',
+  whiteoutLatch: 'whiteout',
+  strobeLatch: 'strobe',
+  invertLatch: 'invert',
+  freezeLatch: 'freeze'
+}
+
+// Keep acting while the key auto-repeats
+export const repeatCommands: KeyCommand[] = ['bpmUp', 'bpmDown', 'intensityUp', 'intensityDown']
+
+export function sceneKeyAction(index: number): SceneKeyAction {
+  return `scene-${index + 1}`
+}
+
+export const sceneKeyActions: SceneKeyAction[] = Array.from(
+  { length: SCENE_BANK_SIZE * SCENE_BANKS },
+  (_, index) => sceneKeyAction(index)
+)
+
+export const keyActions: KeyAction[] = [...sceneKeyActions, ...keyCommands]
+
+// Scene index of a scene action, or null for commands
+export function sceneIndexOf(action: KeyAction): number | null {
+  const match = /^scene-(\d+)$/.exec(action)
+  return match ? parseInt(match[1]) - 1 : null
+}
+
+export function keyActionLabel(action: KeyAction): string {
+  const scene = sceneIndexOf(action)
+  return scene === null ? keyCommandLabels[action as KeyCommand] : `Scene ${scene + 1}`
+}
+
+// Chords for each action, e.g. 'Shift+1', 'Space', 'ArrowRight'
+export type Keymap = Record<KeyAction, string[]>
+
+export const defaultKeymap: Keymap = {
+  ...Object.fromEntries(sceneKeyActions.map((action, index) => {
+    const digit = String((index % SCENE_BANK_SIZE) + 1)
+    return [action, [index < SCENE_BANK_SIZE ? digit : `Shift+${digit}`]]
+  })),
+  nextScene: ['N', 'ArrowRight'],
+  prevScene: ['P', 'ArrowLeft'],
+  cancelPendingScene: ['Backspace'],
+  downbeat: ['D'],
+  tapTempo: ['Enter'],
+  bpmUp: ['='],
+  bpmDown: ['-'],
+  intensityUp: ['ArrowUp'],
+  intensityDown: ['ArrowDown'],
+  blackout: ['B'],
+  whiteout: ['W'],
+  strobe: ['S'],
+  invert: ['I'],
+  freeze: ['Z'],
+  blackoutLatch: ['Shift+B'],
+  whiteoutLatch: ['Shift+W'],
+  strobeLatch: ['Shift+S'],
+  invertLatch: ['Shift+I'],
+  freezeLatch: ['Shift+Z'],
+  clearFx: ['X'],
+  transitionType: ['T'],
+  transitionShorter: ['['],
+  transitionLonger: [']'],
+  fullscreen: ['F'],
+  pause: ['Space'],
+  settings: ['Tab', 'H'],
+  closeSettings: ['Escape']
+}
+
+const modifierKeys = ['Control', 'Alt', 'Shift', 'Meta']
+
+interface KeyLike {
+  key: string
+  code: string
+  ctrlKey: boolean
+  altKey: boolean
+  shiftKey: boolean
+  metaKey: boolean
+}
+
+// Chord of a key press. Letters and digits come from the physical key so
+// Shift+1 stays 'Shift+1' rather than 'Shift+!'. Null for a lone modifier.
+export function keyChord(event: KeyLike): string | null {
+  if (modifierKeys.includes(event.key)) return null
+
+  const letterOrDigit = /^(?:Key|Digit)(\w)$/.exec(event.code)
+  let key = letterOrDigit ? letterOrDigit[1] : event.key
+  if (key === ' ') key = 'Space'
+  if (key.length === 1) key = key.toUpperCase()
+
+  const modifiers = [
+    event.ctrlKey && 'Ctrl',
+    event.altKey && 'Alt',
+    event.shiftKey && 'Shift',
+    event.metaKey && 'Meta'
+  ].filter(Boolean)
+  return [...modifiers, key].join('+')
+}
+
+// Action bound to each chord
+export function chordLookup(keymap: Keymap): Map<string, KeyAction> {
+  const lookup: Map<string, KeyAction> = new Map()
+  for (const action of keyActions) {
+    keymap[action].forEach(chord => lookup.set(chord, action))
+  }
+  return lookup
+}
+
+// A keymap from stored or imported JSON. Known actions keep their listed
+// chords; missing ones get their defaults unless those chords are taken.
+export function parseKeymap(value: unknown): Keymap | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return null
+
+  const record = value as Record<string, unknown>
+  const keymap = {} as Keymap
+  const taken: Set<string> = new Set()
+  const missing: KeyAction[] = []
+
+  for (const action of keyActions) {
+    const chords = record[action]
+    if (!Array.isArray(chords)) {
+      missing.push(action)
+      continue
+    }
+    keymap[action] = []
+    for (const chord of chords) {
+      if (typeof chord === 'string' && chord.length > 0 && !taken.has(chord)) {
+        keymap[action].push(chord)
+        taken.add(chord)
+      }
+    }
+  }
+
+  if (missing.length === keyActions.length) return null
+
+  for (const action of missing) {
+    keymap[action] = defaultKeymap[action].filter(chord => !taken.has(chord))
+  }
+  return keymap
+}
+
+// Bind `chord` to `action`, taking it away from whatever had it
+export function bindChord(keymap: Keymap, action: KeyAction, chord: string): Keymap {
+  const next = {} as Keymap
+  for (const other of keyActions) {
+    next[other] = keymap[other].filter(existing => existing !== chord)
+  }
+  next[action] = [...next[action], chord]
+  return next
+}
+
+// Label for display; arrows read better as symbols
+export function chordLabel(chord: string): string {
+  return chord
+    .replace('ArrowRight', '→')
+    .replace('ArrowLeft', '←')
+    .replace('ArrowUp', '↑')
+    .replace('ArrowDown', '↓')
+}
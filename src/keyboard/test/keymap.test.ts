@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import { bindChord, chordLookup, defaultKeymap, keyActions, keyChord, parseKeymap, sceneIndexOf } from '../keymap'
+
+// Just the fields the keymap reads from a KeyboardEvent
+function press(key: string, code: string, modifiers: { shift?: boolean, ctrl?: boolean } = {}) {
+  return {
+    key,
+    code,
+    ctrlKey: modifiers.ctrl ?? false,
+    altKey: false,
+    shiftKey: modifiers.shift ?? false,
+    metaKey: false
+  }
+}
+
+describe('keymap', () => {
+  it('names chords by physical letter and digit keys', () => {
+    expect(keyChord(press('n', 'KeyN'))).toBe('N')
+    expect(keyChord(press('!', 'Digit1', { shift: true }))).toBe('Shift+1')
+    expect(keyChord(press(' ', 'Space'))).toBe('Space')
+    expect(keyChord(press('ArrowRight', 'ArrowRight', { ctrl: true }))).toBe('Ctrl+ArrowRight')
+    expect(keyChord(press('[', 'BracketLeft'))).toBe('[')
+    expect(keyChord(press('Shift', 'ShiftLeft', { shift: true }))).toBeNull()
+  })
+
+  it('reaches the second scene bank with Shift', () => {
+    const lookup = chordLookup(defaultKeymap)
+
+    expect(sceneIndexOf(lookup.get('1')!)).toBe(0)
+    expect(sceneIndexOf(lookup.get('9')!)).toBe(8)
+    expect(sceneIndexOf(lookup.get('Shift+1')!)).toBe(9)
+    expect(sceneIndexOf(lookup.get('Shift+9')!)).toBe(17)
+    expect(lookup.get('Space')).toBe('pause')
+  })
+
+  it('gives every chord of the defaults to one action only', () => {
+    const chords = keyActions.flatMap(action => defaultKeymap[action])
+    expect(new Set(chords).size).toBe(chords.length)
+  })
+
+  it('moves a chord when it is bound to another action', () => {
+    const keymap = bindChord(defaultKeymap, 'blackout', 'N')
+
+    expect(keymap.blackout).toEqual(['B', 'N'])
+    expect(keymap.nextScene).toEqual(['ArrowRight'])
+    expect(chordLookup(keymap).get('N')).toBe('blackout')
+  })
+
+  it('survives an exported keymap round trip', () => {
+    const keymap = bindChord(defaultKeymap, 'strobe', 'Shift+S')
+    expect(parseKeymap(JSON.parse(JSON.stringify(keymap)))).toEqual(keymap)
+  })
+
+  it('cleans up imported keymaps', () => {
+    // Older file without the freeze action, a junk entry and a doubled chord
+    const imported = parseKeymap({
+      nextScene: ['N', 'B', 42],
+      blackout: ['B', 'X'],
+      unknownAction: ['Q'],
+      freeze: 'Z'
+    })!
+
+    expect(imported.nextScene).toEqual(['N', 'B'])
+    expect(imported.blackout).toEqual(['X'])
+    expect(imported.freeze).toEqual(['Z'])
+    expect(imported.prevScene).toEqual(['P', 'ArrowLeft'])
+    expect('unknownAction' in imported).toBe(false)
+
+    expect(parseKeymap(null)).toBeNull()
+    expect(parseKeymap([])).toBeNull()
+    expect(parseKeymap({ something: 'else' })).toBeNull()
+  })
+})
@@ -0,0 +1,57 @@
+// Outcome of asking the browser for Web MIDI
+export type MidiAccessStatus = 'on' | 'unsupported' | 'blocked'
+
+export type MidiAccessResult =
+  | { status: 'on', access: MIDIAccess }
+  | { status: Exclude<MidiAccessStatus, 'on'>, access: null }
+
+let pending: Promise<MidiAccessResult> | null = null
+
+// Everything MIDI shares one MIDIAccess; the permission prompt shows once
+export function requestMidiAccess(): Promise<MidiAccessResult> {
+  if (!navigator.requestMIDIAccess) {
+    return Promise.resolve({ status: 'unsupported', access: null })
+  }
+
+  if (!pending) {
+    pending = navigator.requestMIDIAccess().then(
+      (access): MidiAccessResult => ({ status: 'on', access }),
+      (err): MidiAccessResult => {
+        console.error('Failed to get MIDI access:', err)
+        // Let the user try again, e.g. after changing the site permission
+        pending = null
+        return { status: 'blocked', access: null }
+      }
+    )
+  }
+  return pending
+}
+
+// Hand every message from every input to `listener`, including inputs plugged
+// in later. Returns a function that stops listening.
+export function listenToMidiInputs(access: MIDIAccess, listener: (event: MIDIMessageEvent) => void): () => void {
+  const inputs: Set<MIDIInput> = new Set()
+  const handleMessage = (event: Event) => listener(event as MIDIMessageEvent)
+
+  const listen = (input: MIDIInput) => {
+    if (inputs.has(input)) return
+    inputs.add(input)
+    input.addEventListener('midimessage', handleMessage)
+    input.open()
+  }
+
+  const handleStateChange = (event: Event) => {
+    const port = (event as MIDIConnectionEvent).port
+    if (port && port.type === 'input' && port.state === 'connected') {
+      listen(port as MIDIInput)
+    }
+  }
+
+  access.inputs.forEach(listen)
+  access.addEventListener('statechange', handleStateChange)
+
+  return () => {
+    access.removeEventListener('statechange', handleStateChange)
+    inputs.forEach(input => input.removeEventListener('midimessage', handleMessage))
+  }
+}
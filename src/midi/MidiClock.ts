@@ -0,0 +1,183 @@
+import { BeatInfo } from '../scenes/types'
+import { getBarPosition } from '../audio/BarCounter'
+import { listenToMidiInputs } from './MidiAccess'
+import { clamp } from '../utils/math'
+
+export const CLOCK_PPQN = 24 // MIDI clock ticks per quarter note
+
+// System real-time and common messages
+const CLOCK = 0xf8
+const START = 0xfa
+const CONTINUE = 0xfb
+const STOP = 0xfc
+const SONG_POSITION = 0xf2
+const TICKS_PER_SIXTEENTH = CLOCK_PPQN / 4
+
+const TEMPO_WINDOW = 48     // ticks the tempo is averaged over, two beats
+const CLOCK_TIMEOUT = 500   // ms without a tick before the clock counts as gone
+const MIN_BPM = 20
+const MAX_BPM = 300
+const ONSET_WINDOW = 0.25   // share of a beat after it in which it still fires
+
+export type TempoSource = 'manual' | 'audio' | 'midi'
+
+export const tempoSources: TempoSource[] = ['manual', 'audio', 'midi']
+
+export const tempoSourceLabels: Record<TempoSource, string> = {
+  manual: 'Manual',
+  audio: 'Audio',
+  midi: 'MIDI Clock'
+}
+
+// off until MIDI is requested; waiting while no clock is heard
+export type MidiClockStatus = 'off' | 'unsupported' | 'blocked' | 'waiting' | 'running' | 'stopped'
+
+export interface MidiClockState {
+  status: MidiClockStatus
+  bpm: number
+  device: string // name of the input the clock comes from
+}
+
+// Tempo and phase from 24 PPQN MIDI clock, with Start/Stop/Continue and
+// Song Position Pointer. Clocks that never send Start (e.g. DJ mixers) run free.
+// Event timestamps share the performance.now() timeline.
+export class MidiClock {
+  private stopListening: (() => void) | null = null
+  private source: MIDIInput | null = null // only one input drives the clock at a time
+
+  private tickTimes: number[] = []
+  private lastTickTime: number = -Infinity
+  private bpm: number = 120
+  private position: number = -1 // ticks into the song at the last tick; -1 = before the first
+  private playing: boolean = true
+  private lastBeat: number = -1
+  private downbeatOffset: number = 0 // beat at the current downbeat reference
+
+  attach(access: MIDIAccess): void {
+    this.detach()
+    this.stopListening = listenToMidiInputs(access, this.handleMessage)
+  }
+
+  detach(): void {
+    this.stopListening?.()
+    this.stopListening = null
+    this.source = null
+    this.lastTickTime = -Infinity
+    this.tickTimes = []
+  }
+
+  isAttached(): boolean {
+    return this.stopListening !== null
+  }
+
+  private handleMessage = (event: MIDIMessageEvent): void => {
+    const { data, timeStamp } = event
+    const input = event.target as MIDIInput
+    if (!data || data.length === 0) return
+
+    const status = data[0]
+    if (status !== CLOCK && status !== START && status !== CONTINUE &&
+        status !== STOP && status !== SONG_POSITION) return
+
+    // Another device is already driving the clock
+    if (input !== this.source && this.isActive(timeStamp)) return
+    this.source = input
+
+    switch (status) {
+      case CLOCK:
+        this.tick(timeStamp)
+        break
+      case START:
+        // The next tick is the first beat of the song
+        this.position = -1
+        this.lastBeat = -1
+        this.playing = true
+        break
+      case CONTINUE:
+        this.playing = true
+        break
+      case STOP:
+        this.playing = false
+        break
+      case SONG_POSITION: {
+        // Position in sixteenth notes; the next tick plays it
+        const sixteenths = (data[1] ?? 0) | ((data[2] ?? 0) << 7)
+        this.position = sixteenths * TICKS_PER_SIXTEENTH - 1
+        this.lastBeat = -1
+        break
+      }
+    }
+  }
+
+  private tick(time: number): void {
+    // Start the tempo average over after a gap
+    if (time - this.lastTickTime > CLOCK_TIMEOUT) {
+      this.tickTimes = []
+    }
+    this.tickTimes.push(time)
+    if (this.tickTimes.length > TEMPO_WINDOW + 1) {
+      this.tickTimes.shift()
+    }
+
+    const count = this.tickTimes.length
+    if (count >= 2) {
+      const interval = (this.tickTimes[count - 1] - this.tickTimes[0]) / (count - 1)
+      this.bpm = clamp(60000 / (interval * CLOCK_PPQN), MIN_BPM, MAX_BPM)
+    }
+
+    this.lastTickTime = time
+    if (this.playing) {
+      this.position++
+    }
+  }
+
+  // True while ticks keep arriving
+  isActive(now: number): boolean {
+    return now - this.lastTickTime < CLOCK_TIMEOUT
+  }
+
+  // Ticks into the song at `now`, moving on between ticks at the current tempo
+  // but never past the next tick
+  private getTicks(now: number): number {
+    if (this.position < 0) return 0
+    if (!this.playing) return this.position
+
+    const tickInterval = 60000 / (this.bpm * CLOCK_PPQN)
+    return this.position + clamp((now - this.lastTickTime) / tickInterval, 0, 0.99)
+  }
+
+  update(now: number): BeatInfo {
+    const ticks = this.getTicks(now)
+    const beat = Math.floor(ticks / CLOCK_PPQN)
+    const phase = ticks / CLOCK_PPQN - beat
+
+    const counting = this.position >= 0
+    const isOnset = counting && beat !== this.lastBeat && phase < ONSET_WINDOW
+    if (counting) {
+      this.lastBeat = beat
+    }
+
+    return {
+      phase,
+      // Same decay shape as BeatClock; nothing pulses while the transport is stopped
+      intensity: this.playing ? Math.max(0, 1 - phase / 0.3) : 0,
+      isOnset,
+      bpm: this.bpm,
+      ...getBarPosition(beat - this.downbeatOffset, phase, isOnset),
+      isDrop: false
+    }
+  }
+
+  // Mark the beat nearest to `time` as the first beat of a bar
+  resetDownbeat(time: number): void {
+    this.downbeatOffset = Math.round(this.getTicks(time) / CLOCK_PPQN)
+  }
+
+  getState(now: number): MidiClockState {
+    return {
+      status: !this.isActive(now) ? 'waiting' : this.playing ? 'running' : 'stopped',
+      bpm: this.bpm,
+      device: this.source?.name ?? ''
+    }
+  }
+}
@@ -0,0 +1,154 @@
+import { listenToMidiInputs } from './MidiAccess'
+import {
+  MidiInputEvent,
+  MidiMapping,
+  MidiTarget,
+  controlKey,
+  createMapping,
+  encoderSteps,
+  isTrigger,
+  parseMidiMessage,
+  positionInRange,
+  scaleToRange,
+  targetKey
+} from './MidiMapping'
+import { clamp } from '../utils/math'
+
+// Reads and writes the app state behind each target; values are 0-1 shares of the target's range
+export interface MidiTargetHandler {
+  getValue(target: MidiTarget): number | null // null when the target doesn't exist (e.g. removed scene)
+  setValue(target: MidiTarget, value: number): void
+  trigger(target: MidiTarget): void
+  release(target: MidiTarget): void // the control that triggered it let go
+}
+
+const TAKEOVER_WINDOW = 0.03    // control position this close to the value picks it up
+const ENCODER_STEP = 1 / 128    // share of the range per encoder detent
+const PRESS_THRESHOLD = 0.5     // CC and pitch bend count as pressed above this
+
+// Soft takeover state of one mapping
+interface Takeover {
+  engaged: boolean
+  lastPosition: number | null // control position of the previous message
+  lastValue: number | null    // target value this mapping last set
+}
+
+// Turns incoming MIDI into app actions through the mappings, and binds new
+// mappings in MIDI Learn mode.
+export class MidiController {
+  private handler: MidiTargetHandler
+  private stopListening: (() => void) | null = null
+  private mappings: MidiMapping[] = []
+  private takeovers: Map<string, Takeover> = new Map() // by target key
+  private pressed: Map<string, boolean> = new Map()    // by control key
+  private learnTarget: MidiTarget | null = null
+  private learnListener: ((mapping: MidiMapping) => void) | null = null
+
+  constructor(handler: MidiTargetHandler) {
+    this.handler = handler
+  }
+
+  attach(access: MIDIAccess): void {
+    this.detach()
+    this.stopListening = listenToMidiInputs(access, event => {
+      if (event.data) {
+        this.handleMessage(event.data)
+      }
+    })
+  }
+
+  detach(): void {
+    this.stopListening?.()
+    this.stopListening = null
+  }
+
+  setMappings(mappings: MidiMapping[]): void {
+    this.mappings = mappings
+  }
+
+  // The next control that moves gets bound to `target`
+  startLearn(target: MidiTarget, listener: (mapping: MidiMapping) => void): void {
+    this.learnTarget = target
+    this.learnListener = listener
+  }
+
+  cancelLearn(): void {
+    this.learnTarget = null
+    this.learnListener = null
+  }
+
+  handleMessage(data: Uint8Array): void {
+    const event = parseMidiMessage(data)
+    if (!event) return
+
+    if (this.learnTarget) {
+      // Releases don't bind; the press before them already did
+      if (event.control.type === 'note' && event.value === 0) return
+
+      const mapping = createMapping(event.control, this.learnTarget)
+      this.takeovers.delete(targetKey(mapping.target))
+      const listener = this.learnListener
+      this.cancelLearn()
+      listener?.(mapping)
+      return
+    }
+
+    const key = controlKey(event.control)
+    const wasPressed = this.pressed.get(key) ?? false
+    const isPressed = event.value >= PRESS_THRESHOLD || (event.control.type === 'note' && event.value > 0)
+    this.pressed.set(key, isPressed)
+
+    for (const mapping of this.mappings) {
+      if (controlKey(mapping.control) !== key) continue
+
+      if (isTrigger(mapping.target)) {
+        if (isPressed && !wasPressed) {
+          this.handler.trigger(mapping.target)
+        } else if (!isPressed && wasPressed) {
+          this.handler.release(mapping.target)
+        }
+      } else {
+        this.applyValue(mapping, event)
+      }
+    }
+  }
+
+  private applyValue(mapping: MidiMapping, event: MidiInputEvent): void {
+    const current = this.handler.getValue(mapping.target)
+    if (current === null) return
+
+    if (mapping.control.type === 'cc' && mapping.encoder === 'relative') {
+      const position = positionInRange(mapping, current) + encoderSteps(event.raw) * ENCODER_STEP
+      this.handler.setValue(mapping.target, scaleToRange(mapping, clamp(position, 0, 1)))
+      return
+    }
+
+    if (!mapping.softTakeover) {
+      this.handler.setValue(mapping.target, scaleToRange(mapping, event.value))
+      return
+    }
+
+    const key = targetKey(mapping.target)
+    const takeover = this.takeovers.get(key) ?? { engaged: false, lastPosition: null, lastValue: null }
+    this.takeovers.set(key, takeover)
+
+    // Changed from somewhere else (mouse, keyboard, another control): pick it up again
+    if (takeover.lastValue === null || Math.abs(current - takeover.lastValue) > 1e-6) {
+      takeover.engaged = false
+    }
+
+    // Engage once the control reaches the value, or passes it between two messages
+    const target = positionInRange(mapping, current)
+    if (!takeover.engaged) {
+      const crossed = takeover.lastPosition !== null &&
+        (takeover.lastPosition - target) * (event.value - target) <= 0
+      takeover.engaged = crossed || Math.abs(event.value - target) <= TAKEOVER_WINDOW
+    }
+    takeover.lastPosition = event.value
+
+    if (takeover.engaged) {
+      this.handler.setValue(mapping.target, scaleToRange(mapping, event.value))
+      takeover.lastValue = this.handler.getValue(mapping.target)
+    }
+  }
+}
@@ -0,0 +1,189 @@
+import { BeatInfo } from '../scenes/types'
+import { PerformanceFxState } from '../renderer/PerformanceFx'
+import { MidiControl, MidiMapping, controlKey } from './MidiMapping'
+
+// What a bound pad shows
+export type LedState = 'off' | 'idle' | 'active' | 'pending' | 'engaged' | 'beat' | 'downbeat'
+
+// Velocity (or CC value) each controller family uses for each state
+export type MidiDeviceProfile = 'generic' | 'apc-mini' | 'launchpad'
+
+export const midiDeviceProfiles: MidiDeviceProfile[] = ['generic', 'apc-mini', 'launchpad']
+
+export const midiDeviceProfileLabels: Record<MidiDeviceProfile, string> = {
+  'generic': 'Generic',
+  'apc-mini': 'APC mini',
+  'launchpad': 'Launchpad'
+}
+
+export const ledTables: Record<MidiDeviceProfile, Record<LedState, number>> = {
+  // Single-color LEDs: on or off
+  'generic': { off: 0, idle: 0, active: 127, pending: 64, engaged: 127, beat: 127, downbeat: 127 },
+  // 1 green, 2 green blink, 3 red, 5 yellow
+  'apc-mini': { off: 0, idle: 5, active: 1, pending: 2, engaged: 3, beat: 1, downbeat: 3 },
+  // Palette indices (programmer mode): 1 dim white, 3 white, 5 red, 13 yellow, 21 green
+  'launchpad': { off: 0, idle: 1, active: 21, pending: 13, engaged: 5, beat: 3, downbeat: 5 }
+}
+
+// Guess the table from the port name; a choice in settings overrides it
+export function detectDeviceProfile(name: string): MidiDeviceProfile {
+  if (/apc\s*mini/i.test(name)) return 'apc-mini'
+  if (/launchpad/i.test(name)) return 'launchpad'
+  return 'generic'
+}
+
+// Everything the LEDs reflect
+export interface FeedbackState {
+  mappings: MidiMapping[]
+  currentScene: number
+  pendingScene: number | null
+  paused: boolean
+  fx: PerformanceFxState // effects currently on, held or latched
+  beat: BeatInfo
+}
+
+const BEAT_PULSE = 0.25 // share of a beat the beat LED stays lit
+
+// LED state of a mapping's control, or null when its target has nothing to show
+export function ledState(mapping: MidiMapping, state: FeedbackState): LedState | null {
+  const target = mapping.target
+  switch (target.kind) {
+    case 'scene':
+      if (target.index === state.currentScene) return 'active'
+      return target.index === state.pendingScene ? 'pending' : 'idle'
+    case 'pause':
+      return state.paused ? 'engaged' : 'idle'
+    case 'fxHold':
+    case 'fxLatch':
+      return state.fx[target.effect] ? 'engaged' : 'idle'
+    case 'beatPulse':
+      if (state.paused || state.beat.phase >= BEAT_PULSE) return 'off'
+      return state.beat.beatInBar === 0 ? 'downbeat' : 'beat'
+    default:
+      return null
+  }
+}
+
+const NOTE_ON = 0x90
+const CONTROL_CHANGE = 0xb0
+
+// The message that lights a control; pitch bend has no LED
+function ledMessage(control: MidiControl, value: number): number[] | null {
+  switch (control.type) {
+    case 'note': return [NOTE_ON | control.channel, control.number, value]
+    case 'cc': return [CONTROL_CHANGE | control.channel, control.number, value]
+    default: return null
+  }
+}
+
+// Sent values of one output, so only changes go out
+interface OutputState {
+  output: MIDIOutput
+  sent: Map<string, { control: MidiControl, value: number }> // by control key
+}
+
+// Lights the pads of connected controllers to match the app: the active scene,
+// a pulse on the beat, and whether pause or an effect like blackout is engaged. Every output gets the
+// same feedback through its own LED table.
+export class MidiFeedback {
+  private access: MIDIAccess | null = null
+  private outputs: Map<string, OutputState> = new Map() // by port id
+  private profiles: Record<string, MidiDeviceProfile> = {} // chosen in settings, by port name
+  private outputsListener: ((names: string[]) => void) | null = null
+
+  private handleStateChange = (event: Event) => {
+    const port = (event as MIDIConnectionEvent).port
+    if (!port || port.type !== 'output') return
+
+    if (port.state === 'connected') {
+      this.addOutput(port as MIDIOutput)
+    } else {
+      this.outputs.delete(port.id)
+      this.publishOutputs()
+    }
+  }
+
+  attach(access: MIDIAccess): void {
+    this.detach()
+    this.access = access
+    access.outputs.forEach(output => this.addOutput(output))
+    access.addEventListener('statechange', this.handleStateChange)
+    this.publishOutputs()
+  }
+
+  // Turns off everything this lit
+  detach(): void {
+    if (!this.access) return
+
+    this.access.removeEventListener('statechange', this.handleStateChange)
+    this.access = null
+    this.outputs.forEach(({ output, sent }) => {
+      sent.forEach(({ control }) => this.send(output, control, 0))
+    })
+    this.outputs.clear()
+    this.publishOutputs()
+  }
+
+  setProfiles(profiles: Record<string, MidiDeviceProfile>): void {
+    this.profiles = profiles
+    // Resend everything in the new colors
+    this.outputs.forEach(state => state.sent.clear())
+  }
+
+  getProfile(name: string): MidiDeviceProfile {
+    return this.profiles[name] ?? detectDeviceProfile(name)
+  }
+
+  // Names of the connected outputs, whenever they change
+  setOutputsListener(listener: ((names: string[]) => void) | null): void {
+    this.outputsListener = listener
+  }
+
+  update(state: FeedbackState): void {
+    this.outputs.forEach(({ output, sent }) => {
+      const table = ledTables[this.getProfile(output.name ?? '')]
+      const shown: Set<string> = new Set()
+      for (const mapping of state.mappings) {
+        const led = ledState(mapping, state)
+        if (led === null) continue
+
+        const key = controlKey(mapping.control)
+        const value = table[led]
+        shown.add(key)
+        if (sent.get(key)?.value === value) continue
+
+        sent.set(key, { control: mapping.control, value })
+        this.send(output, mapping.control, value)
+      }
+
+      // Pads that lost their mapping go dark
+      sent.forEach(({ control }, key) => {
+        if (shown.has(key)) return
+        sent.delete(key)
+        this.send(output, control, 0)
+      })
+    })
+  }
+
+  private addOutput(output: MIDIOutput): void {
+    if (this.outputs.has(output.id)) return
+    // A fresh output gets the full state on the next update
+    this.outputs.set(output.id, { output, sent: new Map() })
+    this.publishOutputs()
+  }
+
+  private send(output: MIDIOutput, control: MidiControl, value: number): void {
+    const message = ledMessage(control, value)
+    if (!message) return
+    try {
+      output.send(message)
+    } catch (err) {
+      // Unplugged between the state change and this message
+      console.error('Failed to send MIDI feedback:', err)
+    }
+  }
+
+  private publishOutputs(): void {
+    this.outputsListener?.(Array.from(this.outputs.values(), ({ output }) => output.name ?? output.id))
+  }
+}
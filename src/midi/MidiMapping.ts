@@ -0,0 +1,153 @@
+import { clamp } from '../utils/math'
+import { PerformanceFxType, performanceFxLabels } from '../renderer/PerformanceFx'
+
+export type MidiMessageType = 'cc' | 'note' | 'pitchbend'
+
+export const midiMessageLabels: Record<MidiMessageType, string> = {
+  cc: 'CC',
+  note: 'Note',
+  pitchbend: 'Pitch Bend'
+}
+
+// A physical control: which message, on which channel, with which number
+export interface MidiControl {
+  type: MidiMessageType
+  channel: number // 0-15
+  number: number  // CC or note number; 0 for pitch bend
+}
+
+// Anything in the app a control can drive
+export type MidiTarget =
+  | { kind: 'masterIntensity' }
+  | { kind: 'sceneParam', scene: string, param: string }
+  | { kind: 'scene', index: number }
+  | { kind: 'tapTempo' }
+  | { kind: 'pause' }
+  | { kind: 'beatPulse' } // output only: the pad that flashes on the beat
+  | { kind: 'fxHold', effect: PerformanceFxType }  // on while the pad is down
+  | { kind: 'fxLatch', effect: PerformanceFxType } // each press toggles
+
+// Continuous targets follow the control's value; the rest fire once per press
+export type MidiTargetKind = MidiTarget['kind']
+
+const triggerKinds: MidiTargetKind[] = ['scene', 'tapTempo', 'pause', 'beatPulse', 'fxHold', 'fxLatch']
+
+// How a CC's value is read: as a position, or as steps from an endless encoder
+// (two's complement: 1-63 up, 65-127 down)
+export type EncoderMode = 'absolute' | 'relative'
+
+export const encoderModes: EncoderMode[] = ['absolute', 'relative']
+
+export const encoderLabels: Record<EncoderMode, string> = {
+  absolute: 'Absolute',
+  relative: 'Relative'
+}
+
+export interface MidiMapping {
+  control: MidiControl
+  target: MidiTarget
+  min: number   // 0-1 share of the target's range at the bottom of the control
+  max: number   // and at the top; below min inverts the control
+  encoder: EncoderMode
+  softTakeover: boolean // wait for the control to reach the current value before taking over
+}
+
+// One incoming message, read against its control
+export interface MidiInputEvent {
+  control: MidiControl
+  value: number // 0-1; note off reads as 0
+  raw: number   // data value as sent: 0-127, or 0-16383 for pitch bend
+}
+
+const CONTROL_CHANGE = 0xb0
+const NOTE_ON = 0x90
+const NOTE_OFF = 0x80
+const PITCH_BEND = 0xe0
+
+// Channel messages this mapping understands; everything else is null
+export function parseMidiMessage(data: Uint8Array): MidiInputEvent | null {
+  if (data.length < 3) return null
+
+  const type = data[0] & 0xf0
+  const channel = data[0] & 0x0f
+  switch (type) {
+    case CONTROL_CHANGE:
+      return { control: { type: 'cc', channel, number: data[1] }, value: data[2] / 127, raw: data[2] }
+    case NOTE_ON:
+      return { control: { type: 'note', channel, number: data[1] }, value: data[2] / 127, raw: data[2] }
+    case NOTE_OFF:
+      return { control: { type: 'note', channel, number: data[1] }, value: 0, raw: 0 }
+    case PITCH_BEND: {
+      const raw = data[1] | (data[2] << 7)
+      return { control: { type: 'pitchbend', channel, number: 0 }, value: raw / 16383, raw }
+    }
+  }
+  return null
+}
+
+export function isTrigger(target: MidiTarget): boolean {
+  return triggerKinds.includes(target.kind)
+}
+
+// Identity of a control, e.g. 'cc:0:21'
+export function controlKey(control: MidiControl): string {
+  return `${control.type}:${control.channel}:${control.number}`
+}
+
+// Identity of a target, e.g. 'sceneParam:Laser Storm:speed'
+export function targetKey(target: MidiTarget): string {
+  switch (target.kind) {
+    case 'sceneParam': return `${target.kind}:${target.scene}:${target.param}`
+    case 'scene': return `${target.kind}:${target.index}`
+    case 'fxHold':
+    case 'fxLatch': return `${target.kind}:${target.effect}`
+    default: return target.kind
+  }
+}
+
+// Short label for the settings panel, e.g. 'CC 21 · Ch 1'
+export function controlLabel(control: MidiControl): string {
+  const number = control.type === 'pitchbend' ? '' : ` ${control.number}`
+  return `${midiMessageLabels[control.type]}${number} · Ch ${control.channel + 1}`
+}
+
+// Name of a target for the settings panel
+export function targetLabel(target: MidiTarget): string {
+  switch (target.kind) {
+    case 'masterIntensity': return 'Intensity'
+    case 'sceneParam': return `${target.scene} · ${target.param}`
+    case 'scene': return `Scene ${target.index + 1}`
+    case 'tapTempo': return 'Tap Tempo'
+    case 'pause': return 'Pause'
+    case 'beatPulse': return 'Beat LED'
+    case 'fxHold': return `${performanceFxLabels[target.effect]} (hold)`
+    case 'fxLatch': return `${performanceFxLabels[target.effect]} (latch)`
+  }
+}
+
+export function createMapping(control: MidiControl, target: MidiTarget): MidiMapping {
+  return {
+    control,
+    target,
+    min: 0,
+    max: 1,
+    encoder: 'absolute',
+    // Pads jump; knobs and faders pick up where the value is
+    softTakeover: control.type !== 'note'
+  }
+}
+
+// Step of a relative encoder message, in detents
+export function encoderSteps(raw: number): number {
+  return raw < 64 ? raw : raw - 128
+}
+
+// Control position (0-1) to a share of the target's range, and back
+export function scaleToRange(mapping: MidiMapping, position: number): number {
+  return clamp(mapping.min + position * (mapping.max - mapping.min), 0, 1)
+}
+
+export function positionInRange(mapping: MidiMapping, share: number): number {
+  const span = mapping.max - mapping.min
+  return span === 0 ? 0 : (share - mapping.min) / span
+}
@@ -0,0 +1,115 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { CLOCK_PPQN, MidiClock } from '../MidiClock'
+import { MockMidiAccess, MockMidiInput } from './mockMidi'
+
+const CLOCK = 0xf8
+const START = 0xfa
+const CONTINUE = 0xfb
+const STOP = 0xfc
+const SONG_POSITION = 0xf2
+
+// Send `count` clock ticks at `bpm` from `from` ms, with a little jitter like USB MIDI.
+// Returns the time of the last tick.
+function sendTicks(input: MockMidiInput, bpm: number, count: number, from: number, jitter: number = 0): number {
+  const interval = 60000 / (bpm * CLOCK_PPQN)
+  let time = from
+  for (let tick = 0; tick < count; tick++) {
+    time = from + tick * interval
+    input.receive([CLOCK], time + (tick % 2 === 0 ? jitter : -jitter))
+  }
+  return time
+}
+
+describe('MidiClock', () => {
+  let input: MockMidiInput
+  let access: MockMidiAccess
+  let clock: MidiClock
+
+  beforeEach(() => {
+    input = new MockMidiInput('mixer', 'DJ Mixer')
+    access = new MockMidiAccess([input])
+    clock = new MidiClock()
+    clock.attach(access.asMIDIAccess())
+  })
+
+  it('derives a steady tempo from jittery ticks', () => {
+    const last = sendTicks(input, 128, 96, 1000, 1)
+
+    expect(clock.getState(last).status).toBe('running')
+    expect(clock.getState(last).device).toBe('DJ Mixer')
+    expect(Math.abs(clock.update(last).bpm - 128)).toBeLessThan(0.5)
+  })
+
+  it('starts the song on the first tick after Start', () => {
+    input.receive([START], 1000)
+    expect(clock.update(1000).isOnset).toBe(false)
+
+    input.receive([CLOCK], 1001)
+    const first = clock.update(1001)
+    expect(first.isOnset).toBe(true)
+    expect(first.isDownbeat).toBe(true)
+    expect(first.beatIndex).toBe(0)
+
+    // Half a beat later at 120 BPM
+    const last = sendTicks(input, 120, 12, 1001 + 60000 / (120 * CLOCK_PPQN))
+    const half = clock.update(last)
+    expect(half.phase).toBeCloseTo(0.5, 1)
+    expect(half.isOnset).toBe(false)
+
+    const next = sendTicks(input, 120, 12, last + 60000 / (120 * CLOCK_PPQN))
+    const second = clock.update(next)
+    expect(second.isOnset).toBe(true)
+    expect(second.beatInBar).toBe(1)
+  })
+
+  it('holds its position on Stop and resumes on Continue', () => {
+    input.receive([START], 0)
+    let time = sendTicks(input, 120, 30, 1)
+    const stopped = clock.update(time)
+
+    input.receive([STOP], time + 1)
+    time = sendTicks(input, 120, 48, time + 2)
+    expect(clock.getState(time).status).toBe('stopped')
+    expect(clock.update(time).beatIndex).toBe(stopped.beatIndex)
+    expect(clock.update(time).intensity).toBe(0)
+
+    input.receive([CONTINUE], time + 1)
+    time = sendTicks(input, 120, 24, time + 2)
+    expect(clock.update(time).beatIndex).toBe(stopped.beatIndex + 1)
+  })
+
+  it('jumps to a Song Position Pointer', () => {
+    input.receive([STOP], 0)
+    // 32 sixteenths: the start of bar 2
+    input.receive([SONG_POSITION, 32, 0], 1)
+    input.receive([CONTINUE], 2)
+    input.receive([CLOCK], 3)
+
+    const beat = clock.update(3)
+    expect(beat.beatIndex).toBe(8)
+    expect(beat.barIndex).toBe(2)
+    expect(beat.isDownbeat).toBe(true)
+  })
+
+  it('takes the clock from one device at a time and lets go when it stops', () => {
+    const drumMachine = new MockMidiInput('drums', 'Drum Machine')
+    access.connect(drumMachine)
+
+    let time = sendTicks(input, 128, 48, 0)
+    sendTicks(drumMachine, 90, 48, 0)
+    expect(clock.getState(time).device).toBe('DJ Mixer')
+    expect(clock.update(time).bpm).toBeCloseTo(128, 0)
+
+    // The mixer goes quiet; the drum machine takes over
+    expect(clock.isActive(time + 1000)).toBe(false)
+    time = sendTicks(drumMachine, 90, 48, time + 1000)
+    expect(clock.getState(time).device).toBe('Drum Machine')
+    expect(clock.update(time).bpm).toBeCloseTo(90, 0)
+  })
+
+  it('stops listening when detached', () => {
+    clock.detach()
+    sendTicks(input, 128, 48, 0)
+    expect(clock.isActive(1000)).toBe(false)
+  })
+})
@@ -0,0 +1,182 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { MidiController, MidiTargetHandler } from '../MidiController'
+import { MidiMapping, MidiTarget, createMapping, targetKey } from '../MidiMapping'
+import { MockMidiAccess, MockMidiInput } from './mockMidi'
+
+const CC = 0xb0
+const NOTE_ON = 0x90
+const NOTE_OFF = 0x80
+const PITCH_BEND = 0xe0
+
+const intensity: MidiTarget = { kind: 'masterIntensity' }
+const tapTempo: MidiTarget = { kind: 'tapTempo' }
+
+// Records what the controller does to the app
+class FakeHandler implements MidiTargetHandler {
+  values: Map<string, number> = new Map()
+  triggered: string[] = []
+  released: string[] = []
+
+  getValue(target: MidiTarget): number | null {
+    return this.values.get(targetKey(target)) ?? null
+  }
+
+  setValue(target: MidiTarget, value: number): void {
+    this.values.set(targetKey(target), value)
+  }
+
+  trigger(target: MidiTarget): void {
+    this.triggered.push(targetKey(target))
+  }
+
+  release(target: MidiTarget): void {
+    this.released.push(targetKey(target))
+  }
+}
+
+describe('MidiController', () => {
+  let input: MockMidiInput
+  let handler: FakeHandler
+  let controller: MidiController
+
+  beforeEach(() => {
+    input = new MockMidiInput('pad', 'Pad Controller')
+    handler = new FakeHandler()
+    handler.values.set('masterIntensity', 0.5)
+    controller = new MidiController(handler)
+    controller.attach(new MockMidiAccess([input]).asMIDIAccess())
+  })
+
+  it('binds the next control that moves in learn mode', () => {
+    let learned: MidiMapping | null = null
+    controller.startLearn(intensity, mapping => { learned = mapping })
+
+    input.receive([CC | 2, 21, 90], 0)
+
+    expect(learned).toEqual(createMapping({ type: 'cc', channel: 2, number: 21 }, intensity))
+    expect(handler.values.get('masterIntensity')).toBe(0.5)
+
+    // Learn is over; the next message is ordinary input
+    learned = null
+    input.receive([CC | 2, 22, 90], 0)
+    expect(learned).toBeNull()
+  })
+
+  it('learns a pad from its press, not its release', () => {
+    const learned: MidiMapping[] = []
+    controller.startLearn(tapTempo, mapping => learned.push(mapping))
+
+    input.receive([NOTE_OFF, 36, 0], 0)
+    expect(learned).toHaveLength(0)
+
+    input.receive([NOTE_ON, 36, 100], 0)
+    expect(learned).toHaveLength(1)
+    expect(learned[0].control).toEqual({ type: 'note', channel: 0, number: 36 })
+    expect(learned[0].softTakeover).toBe(false)
+  })
+
+  it('scales an absolute control into the mapping range', () => {
+    const mapping = createMapping({ type: 'cc', channel: 0, number: 7 }, intensity)
+    controller.setMappings([{ ...mapping, min: 0.2, max: 0.6, softTakeover: false }])
+
+    input.receive([CC, 7, 0], 0)
+    expect(handler.values.get('masterIntensity')).toBeCloseTo(0.2)
+    input.receive([CC, 7, 127], 0)
+    expect(handler.values.get('masterIntensity')).toBeCloseTo(0.6)
+
+    // Inverted range
+    controller.setMappings([{ ...mapping, min: 1, max: 0, softTakeover: false }])
+    input.receive([CC, 7, 127], 0)
+    expect(handler.values.get('masterIntensity')).toBeCloseTo(0)
+  })
+
+  it('waits for a soft-takeover control to reach the current value', () => {
+    controller.setMappings([createMapping({ type: 'cc', channel: 0, number: 7 }, intensity)])
+
+    // Knob is far below the value: nothing happens
+    input.receive([CC, 7, 10], 0)
+    input.receive([CC, 7, 30], 0)
+    expect(handler.values.get('masterIntensity')).toBe(0.5)
+
+    // Sweeps past it between two messages: picks it up and follows from there
+    input.receive([CC, 7, 80], 0)
+    expect(handler.values.get('masterIntensity')).toBeCloseTo(80 / 127)
+    input.receive([CC, 7, 20], 0)
+    expect(handler.values.get('masterIntensity')).toBeCloseTo(20 / 127)
+
+    // Changed with the mouse: the knob has to catch up again
+    handler.values.set('masterIntensity', 0.9)
+    input.receive([CC, 7, 25], 0)
+    expect(handler.values.get('masterIntensity')).toBe(0.9)
+    input.receive([CC, 7, 115], 0)
+    expect(handler.values.get('masterIntensity')).toBeCloseTo(0.9, 1)
+  })
+
+  it('steps a relative encoder from the current value', () => {
+    const mapping = createMapping({ type: 'cc', channel: 0, number: 16 }, intensity)
+    controller.setMappings([{ ...mapping, encoder: 'relative' }])
+
+    input.receive([CC, 16, 4], 0)
+    expect(handler.values.get('masterIntensity')).toBeCloseTo(0.5 + 4 / 128)
+
+    // 127 is one detent down
+    input.receive([CC, 16, 127], 0)
+    input.receive([CC, 16, 127], 0)
+    expect(handler.values.get('masterIntensity')).toBeCloseTo(0.5 + 2 / 128)
+
+    // Stops at the end of the range
+    for (let i = 0; i < 20; i++) {
+      input.receive([CC, 16, 63], 0)
+    }
+    expect(handler.values.get('masterIntensity')).toBe(1)
+  })
+
+  it('fires triggers once per press', () => {
+    controller.setMappings([
+      createMapping({ type: 'note', channel: 9, number: 36 }, tapTempo),
+      createMapping({ type: 'cc', channel: 0, number: 64 }, { kind: 'pause' })
+    ])
+
+    input.receive([NOTE_ON | 9, 36, 100], 0)
+    input.receive([NOTE_ON | 9, 36, 0], 0) // note on with velocity 0 is a release
+    input.receive([NOTE_ON | 9, 36, 80], 0)
+    input.receive([NOTE_OFF | 9, 36, 0], 0)
+    expect(handler.triggered).toEqual(['tapTempo', 'tapTempo'])
+
+    // A CC button sends a stream while held; only the rising edge counts
+    input.receive([CC, 64, 127], 0)
+    input.receive([CC, 64, 127], 0)
+    input.receive([CC, 64, 0], 0)
+    expect(handler.triggered).toEqual(['tapTempo', 'tapTempo', 'pause'])
+    expect(handler.released).toEqual(['tapTempo', 'tapTempo', 'pause'])
+  })
+
+  it('holds an effect for as long as its pad is down', () => {
+    controller.setMappings([createMapping({ type: 'note', channel: 0, number: 40 }, { kind: 'fxHold', effect: 'blackout' })])
+
+    input.receive([NOTE_ON, 40, 127], 0)
+    expect(handler.triggered).toEqual(['fxHold:blackout'])
+    expect(handler.released).toEqual([])
+
+    input.receive([NOTE_OFF, 40, 64], 0)
+    expect(handler.released).toEqual(['fxHold:blackout'])
+  })
+
+  it('reads pitch bend at 14-bit resolution', () => {
+    const mapping = createMapping({ type: 'pitchbend', channel: 0, number: 0 }, intensity)
+    controller.setMappings([{ ...mapping, softTakeover: false }])
+
+    input.receive([PITCH_BEND, 0x00, 0x40], 0) // centre: 8192
+    expect(handler.values.get('masterIntensity')).toBeCloseTo(8192 / 16383, 4)
+    input.receive([PITCH_BEND, 0x7f, 0x7f], 0)
+    expect(handler.values.get('masterIntensity')).toBe(1)
+  })
+
+  it('leaves missing targets alone', () => {
+    const param: MidiTarget = { kind: 'sceneParam', scene: 'Gone', param: 'speed' }
+    controller.setMappings([{ ...createMapping({ type: 'cc', channel: 0, number: 1 }, param), softTakeover: false }])
+
+    input.receive([CC, 1, 64], 0)
+    expect(handler.values.has(targetKey(param))).toBe(false)
+  })
+})
@@ -0,0 +1,135 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { FeedbackState, MidiFeedback, detectDeviceProfile, ledTables } from '../MidiFeedback'
+import { MidiMapping, createMapping } from '../MidiMapping'
+import { defaultBeatInfo } from '../../scenes/types'
+import { inactivePerformanceFx } from '../../renderer/PerformanceFx'
+import { MockMidiAccess, MockMidiOutput } from './mockMidi'
+
+const NOTE_ON = 0x90
+const CC = 0xb0
+
+const scenePads: MidiMapping[] = [0, 1, 2].map(index =>
+  createMapping({ type: 'note', channel: 0, number: 56 + index }, { kind: 'scene', index }))
+const pausePad = createMapping({ type: 'cc', channel: 0, number: 98 }, { kind: 'pause' })
+const beatPad = createMapping({ type: 'note', channel: 0, number: 82 }, { kind: 'beatPulse' })
+const knob = createMapping({ type: 'cc', channel: 0, number: 48 }, { kind: 'masterIntensity' })
+
+function feedbackState(changes: Partial<FeedbackState> = {}): FeedbackState {
+  return {
+    mappings: [...scenePads, pausePad, beatPad, knob],
+    currentScene: 0,
+    pendingScene: null,
+    paused: false,
+    fx: inactivePerformanceFx,
+    beat: { ...defaultBeatInfo, phase: 0.5, beatInBar: 1 },
+    ...changes
+  }
+}
+
+describe('MidiFeedback', () => {
+  let apc: MockMidiOutput
+  let access: MockMidiAccess
+  let feedback: MidiFeedback
+
+  beforeEach(() => {
+    apc = new MockMidiOutput('apc', 'APC MINI')
+    access = new MockMidiAccess([], [apc])
+    feedback = new MidiFeedback()
+    feedback.attach(access.asMIDIAccess())
+  })
+
+  it('lights bound pads from the device table', () => {
+    const table = ledTables['apc-mini']
+    feedback.update(feedbackState({ pendingScene: 2 }))
+
+    expect(apc.sent).toEqual([
+      [NOTE_ON, 56, table.active],
+      [NOTE_ON, 57, table.idle],
+      [NOTE_ON, 58, table.pending],
+      [CC, 98, table.idle],
+      [NOTE_ON, 82, table.off]
+    ])
+  })
+
+  it('only sends what changed', () => {
+    feedback.update(feedbackState())
+    apc.sent.length = 0
+
+    feedback.update(feedbackState())
+    expect(apc.sent).toEqual([])
+
+    feedback.update(feedbackState({ currentScene: 1, paused: true }))
+    expect(apc.sent).toEqual([
+      [NOTE_ON, 56, ledTables['apc-mini'].idle],
+      [NOTE_ON, 57, ledTables['apc-mini'].active],
+      [CC, 98, ledTables['apc-mini'].engaged]
+    ])
+  })
+
+  it('pulses the beat pad, brighter on the downbeat', () => {
+    const table = ledTables['apc-mini']
+    const beatValues = (beatInBar: number, phase: number) => {
+      apc.sent.length = 0
+      feedback.update(feedbackState({ beat: { ...defaultBeatInfo, beatInBar, phase } }))
+      return apc.sent.filter(message => message[1] === 82).map(message => message[2])
+    }
+
+    expect(beatValues(0, 0.05)).toEqual([table.downbeat])
+    expect(beatValues(0, 0.5)).toEqual([table.off])
+    expect(beatValues(1, 0.1)).toEqual([table.beat])
+    expect(beatValues(1, 0.2)).toEqual([])
+    expect(beatValues(1, 0.3)).toEqual([table.off])
+  })
+
+  it('keeps the beat pad dark while paused', () => {
+    feedback.update(feedbackState({ paused: true, beat: { ...defaultBeatInfo, beatInBar: 0, phase: 0 } }))
+    expect(apc.sent).toContainEqual([NOTE_ON, 82, 0])
+  })
+
+  it('uses each device its own table, and the one chosen in settings', () => {
+    expect(detectDeviceProfile('Launchpad Mini MK3 LPMiniMK3 MIDI')).toBe('launchpad')
+    expect(detectDeviceProfile('nanoKONTROL2')).toBe('generic')
+
+    const launchpad = new MockMidiOutput('lp', 'Launchpad X')
+    access.connect(launchpad)
+    feedback.update(feedbackState())
+    expect(launchpad.sent[0]).toEqual([NOTE_ON, 56, ledTables['launchpad'].active])
+    expect(apc.sent[0]).toEqual([NOTE_ON, 56, ledTables['apc-mini'].active])
+
+    feedback.setProfiles({ 'Launchpad X': 'generic' })
+    launchpad.sent.length = 0
+    feedback.update(feedbackState())
+    expect(launchpad.sent[0]).toEqual([NOTE_ON, 56, ledTables['generic'].active])
+  })
+
+  it('tracks outputs as they come and go', () => {
+    const names: string[][] = []
+    feedback.setOutputsListener(list => names.push(list))
+
+    const launchpad = new MockMidiOutput('lp', 'Launchpad X')
+    access.connect(launchpad)
+    access.unplug(apc)
+    expect(names).toEqual([['APC MINI', 'Launchpad X'], ['Launchpad X']])
+
+    feedback.update(feedbackState())
+    expect(apc.sent).toEqual([])
+    expect(launchpad.sent.length).toBeGreaterThan(0)
+  })
+
+  it('turns pads off when their mapping goes, and on detach', () => {
+    feedback.update(feedbackState())
+    apc.sent.length = 0
+
+    feedback.update(feedbackState({ mappings: [...scenePads, beatPad] }))
+    expect(apc.sent).toEqual([[CC, 98, 0]])
+
+    apc.sent.length = 0
+    feedback.detach()
+    expect(apc.sent).toEqual([
+      [NOTE_ON, 56, 0],
+      [NOTE_ON, 57, 0],
+      [NOTE_ON, 58, 0],
+      [NOTE_ON, 82, 0]
+    ])
+  })
+})
@@ -0,0 +1,85 @@
+// Stand-ins for the Web MIDI objects, so MIDI code runs in Node without hardware
+
+export class MockMidiInput extends EventTarget {
+  readonly type = 'input'
+  readonly state = 'connected'
+  connection: 'open' | 'closed' | 'pending' = 'closed'
+
+  constructor(readonly id: string, readonly name: string) {
+    super()
+  }
+
+  open(): Promise<this> {
+    this.connection = 'open'
+    return Promise.resolve(this)
+  }
+
+  close(): Promise<this> {
+    this.connection = 'closed'
+    return Promise.resolve(this)
+  }
+
+  // Deliver a message as the browser would; `timeStamp` is performance.now() ms
+  receive(data: number[], timeStamp: number): void {
+    const event = new Event('midimessage')
+    Object.defineProperties(event, {
+      data: { value: new Uint8Array(data) },
+      timeStamp: { value: timeStamp }
+    })
+    this.dispatchEvent(event)
+  }
+}
+
+// Records what gets sent to it
+export class MockMidiOutput extends EventTarget {
+  readonly type = 'output'
+  state: 'connected' | 'disconnected' = 'connected'
+  readonly sent: number[][] = []
+
+  constructor(readonly id: string, readonly name: string) {
+    super()
+  }
+
+  send(data: number[]): void {
+    this.sent.push(Array.from(data))
+  }
+}
+
+export class MockMidiAccess extends EventTarget {
+  readonly inputs: Map<string, MockMidiInput> = new Map()
+  readonly outputs: Map<string, MockMidiOutput> = new Map()
+  readonly sysexEnabled = false
+
+  constructor(inputs: MockMidiInput[] = [], outputs: MockMidiOutput[] = []) {
+    super()
+    inputs.forEach(input => this.inputs.set(input.id, input))
+    outputs.forEach(output => this.outputs.set(output.id, output))
+  }
+
+  // Plug in a device after access was granted
+  connect(port: MockMidiInput | MockMidiOutput): void {
+    if (port instanceof MockMidiOutput) {
+      port.state = 'connected'
+      this.outputs.set(port.id, port)
+    } else {
+      this.inputs.set(port.id, port)
+    }
+    this.dispatchStateChange(port)
+  }
+
+  unplug(output: MockMidiOutput): void {
+    output.state = 'disconnected'
+    this.outputs.delete(output.id)
+    this.dispatchStateChange(output)
+  }
+
+  asMIDIAccess(): MIDIAccess {
+    return this as unknown as MIDIAccess
+  }
+
+  private dispatchStateChange(port: MockMidiInput | MockMidiOutput): void {
+    const event = new Event('statechange')
+    Object.defineProperty(event, 'port', { value: port })
+    this.dispatchEvent(event)
+  }
+}
@@ -0,0 +1,155 @@
+import * as THREE from 'three'
+import { AudioFeatures, BeatInfo } from '../scenes/types'
+
+export const SPECTRUM_SIZE = 256      // texels, 0 Hz to Nyquist
+export const WAVEFORM_SIZE = 256
+export const SPECTROGRAM_HISTORY = 128 // rows
+const SPECTROGRAM_RATE = 60            // rows per second, independent of the frame rate
+
+// Standard audio uniforms shared by every scene's shaders. The objects are
+// shared, so spreading them into a material's uniforms keeps it up to date.
+export interface AudioUniforms {
+  uSpectrum: THREE.IUniform<THREE.DataTexture>
+  uWaveform: THREE.IUniform<THREE.DataTexture>
+  uSpectrogram: THREE.IUniform<THREE.DataTexture>
+  uBass: THREE.IUniform<number>
+  uMid: THREE.IUniform<number>
+  uHigh: THREE.IUniform<number>
+  uEnergy: THREE.IUniform<number>
+  uKick: THREE.IUniform<number>
+  uSnare: THREE.IUniform<number>
+  uHat: THREE.IUniform<number>
+  uBeat: THREE.IUniform<number>     // beat intensity, 1 on the hit and decaying
+  uPhase: THREE.IUniform<number>    // 0-1 within the beat
+  uBarPhase: THREE.IUniform<number> // 0-1 within the bar
+  uBPM: THREE.IUniform<number>
+  [uniform: string]: THREE.IUniform
+}
+
+// Declarations and lookup helpers for the uniforms above; prepend to a shader
+export const audioUniformsGLSL = `
+  uniform sampler2D uSpectrum;
+  uniform sampler2D uWaveform;
+  uniform sampler2D uSpectrogram;
+  uniform float uBass;
+  uniform float uMid;
+  uniform float uHigh;
+  uniform float uEnergy;
+  uniform float uKick;
+  uniform float uSnare;
+  uniform float uHat;
+  uniform float uBeat;
+  uniform float uPhase;
+  uniform float uBarPhase;
+  uniform float uBPM;
+
+  // x: 0 = lowest frequency, 1 = Nyquist; result 0-1
+  float audioSpectrum(float x) {
+    return texture2D(uSpectrum, vec2(x, 0.5)).r;
+  }
+
+  // x: 0-1 across the latest samples; result -1 to 1
+  float audioWaveform(float x) {
+    return texture2D(uWaveform, vec2(x, 0.5)).r * 2.0 - 1.0;
+  }
+
+  // age: 0 = now, 1 = about two seconds ago
+  float audioSpectrogram(float x, float age) {
+    return texture2D(uSpectrogram, vec2(x, age)).r;
+  }
+`
+
+function createTexture(data: Uint8Array<ArrayBuffer>, width: number, height: number): THREE.DataTexture {
+  const texture = new THREE.DataTexture(data, width, height, THREE.RedFormat, THREE.UnsignedByteType)
+  texture.minFilter = THREE.LinearFilter
+  texture.magFilter = THREE.LinearFilter
+  texture.wrapS = THREE.ClampToEdgeWrapping
+  texture.wrapT = THREE.ClampToEdgeWrapping
+  texture.needsUpdate = true
+  return texture
+}
+
+// Spectrum, waveform and a scrolling spectrogram as 8-bit textures, updated once per frame
+export class AudioTextures {
+  private spectrumData: Uint8Array<ArrayBuffer> = new Uint8Array(SPECTRUM_SIZE)
+  private waveformData: Uint8Array<ArrayBuffer> = new Uint8Array(WAVEFORM_SIZE).fill(128)
+  private spectrogramData: Uint8Array<ArrayBuffer> = new Uint8Array(SPECTRUM_SIZE * SPECTROGRAM_HISTORY)
+  private rowTime: number = 0 // ms not yet turned into spectrogram rows
+
+  readonly uniforms: AudioUniforms
+
+  constructor() {
+    this.uniforms = {
+      uSpectrum: { value: createTexture(this.spectrumData, SPECTRUM_SIZE, 1) },
+      uWaveform: { value: createTexture(this.waveformData, WAVEFORM_SIZE, 1) },
+      uSpectrogram: { value: createTexture(this.spectrogramData, SPECTRUM_SIZE, SPECTROGRAM_HISTORY) },
+      uBass: { value: 0 },
+      uMid: { value: 0 },
+      uHigh: { value: 0 },
+      uEnergy: { value: 0 },
+      uKick: { value: 0 },
+      uSnare: { value: 0 },
+      uHat: { value: 0 },
+      uBeat: { value: 0 },
+      uPhase: { value: 0 },
+      uBarPhase: { value: 0 },
+      uBPM: { value: 0 }
+    }
+  }
+
+  update(deltaTime: number, beat: BeatInfo, audio: AudioFeatures): void {
+    // Average the FFT bins (fftSize / 2 of them) down to the texture width
+    const spectrum = audio.spectrum
+    const binsPerTexel = spectrum.length / SPECTRUM_SIZE
+    for (let i = 0; i < SPECTRUM_SIZE; i++) {
+      const start = Math.floor(i * binsPerTexel)
+      const end = Math.max(start + 1, Math.floor((i + 1) * binsPerTexel))
+      let sum = 0
+      for (let j = start; j < end; j++) {
+        sum += spectrum[j] ?? 0
+      }
+      this.spectrumData[i] = Math.min(255, (sum / (end - start)) * 255)
+    }
+    this.uniforms.uSpectrum.value.needsUpdate = true
+
+    // Waveform -1 to 1 is stored as 0-1
+    const waveform = audio.waveform
+    for (let i = 0; i < WAVEFORM_SIZE; i++) {
+      const sample = waveform[Math.floor((i * waveform.length) / WAVEFORM_SIZE)] ?? 0
+      this.waveformData[i] = Math.max(0, Math.min(255, (sample * 0.5 + 0.5) * 255))
+    }
+    this.uniforms.uWaveform.value.needsUpdate = true
+
+    // Scroll the spectrogram: row 0 is the newest
+    this.rowTime += deltaTime
+    const rowInterval = 1000 / SPECTROGRAM_RATE
+    const rows = Math.min(SPECTROGRAM_HISTORY, Math.floor(this.rowTime / rowInterval))
+    if (rows > 0) {
+      this.rowTime -= rows * rowInterval
+      this.spectrogramData.copyWithin(rows * SPECTRUM_SIZE, 0, (SPECTROGRAM_HISTORY - rows) * SPECTRUM_SIZE)
+      for (let row = 0; row < rows; row++) {
+        this.spectrogramData.set(this.spectrumData, row * SPECTRUM_SIZE)
+      }
+      this.uniforms.uSpectrogram.value.needsUpdate = true
+    }
+
+    const uniforms = this.uniforms
+    uniforms.uBass.value = audio.bass
+    uniforms.uMid.value = audio.mid
+    uniforms.uHigh.value = audio.high
+    uniforms.uEnergy.value = audio.energy
+    uniforms.uKick.value = audio.kick
+    uniforms.uSnare.value = audio.snare
+    uniforms.uHat.value = audio.hat
+    uniforms.uBeat.value = beat.intensity
+    uniforms.uPhase.value = beat.phase
+    uniforms.uBarPhase.value = beat.barPhase
+    uniforms.uBPM.value = beat.bpm
+  }
+
+  dispose(): void {
+    this.uniforms.uSpectrum.value.dispose()
+    this.uniforms.uWaveform.value.dispose()
+    this.uniforms.uSpectrogram.value.dispose()
+  }
+}
@@ -0,0 +1,57 @@
+import { AudioFeatures, BeatInfo, KeyMode } from '../scenes/types'
+import { easeInOutQuad, mod } from '../utils/math'
+
+// Hue of a key: its place on the circle of fifths, so related keys get
+// neighbouring colors. Minor keys sit just before their relative major.
+export function keyHue(key: number, mode: KeyMode): number {
+  const major = mode === 'minor' ? (key + 3) % 12 : key
+  const fifths = (major * 7) % 12
+  return mod(fifths / 12 - (mode === 'minor' ? 1 / 24 : 0), 1)
+}
+
+// Scene hue that follows the estimated key. A key change shifts the palette
+// over one bar, starting on the next downbeat.
+export class HarmonicPalette {
+  private hue: number | null = null
+  private fromHue: number = 0
+  private targetHue: number = 0
+  private shiftProgress: number = 1 // 0-1 through the current shift
+  private shiftWait: number = 0     // ms waited for a downbeat
+
+  // Current hue, or null while no key is known
+  update(deltaTime: number, beat: BeatInfo, audio: AudioFeatures): number | null {
+    if (audio.key !== null) {
+      const target = keyHue(audio.key, audio.keyMode)
+      if (this.hue === null) {
+        this.hue = target
+        this.targetHue = target
+      } else if (target !== this.targetHue) {
+        this.fromHue = this.hue
+        this.targetHue = target
+        this.shiftProgress = 0
+        this.shiftWait = 0
+      }
+    }
+
+    if (this.hue === null || this.shiftProgress >= 1) return this.hue
+
+    // Don't wait more than a bar for a downbeat that never comes
+    const barDuration = (4 * 60000) / beat.bpm
+    if (this.shiftProgress === 0 && !beat.isDownbeat && this.shiftWait < barDuration) {
+      this.shiftWait += deltaTime
+      return this.hue
+    }
+
+    // Go the short way round the color wheel
+    this.shiftProgress = Math.min(1, this.shiftProgress + Math.max(deltaTime, 1) / barDuration)
+    const distance = mod(this.targetHue - this.fromHue + 0.5, 1) - 0.5
+    this.hue = mod(this.fromHue + distance * easeInOutQuad(this.shiftProgress), 1)
+    return this.hue
+  }
+
+  reset(): void {
+    this.hue = null
+    this.shiftProgress = 1
+    this.shiftWait = 0
+  }
+}
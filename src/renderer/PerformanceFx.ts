@@ -0,0 +1,105 @@
+import { BeatInfo } from '../scenes/types'
+
+// Effects a performer holds or latches on top of whatever scene is playing
+export type PerformanceFxType = 'blackout' | 'whiteout' | 'strobe' | 'invert' | 'freeze'
+
+export const performanceFxTypes: PerformanceFxType[] = ['blackout', 'whiteout', 'strobe', 'invert', 'freeze']
+
+export const performanceFxLabels: Record<PerformanceFxType, string> = {
+  blackout: 'Blackout',
+  whiteout: 'Whiteout',
+  strobe: 'Strobe',
+  invert: 'Invert',
+  freeze: 'Freeze'
+}
+
+export type PerformanceFxState = Record<PerformanceFxType, boolean>
+
+export const inactivePerformanceFx: PerformanceFxState = {
+  blackout: false,
+  whiteout: false,
+  strobe: false,
+  invert: false,
+  freeze: false
+}
+
+// An effect is on while held (momentary) or latched
+export function activePerformanceFx(held: PerformanceFxState, latched: PerformanceFxState): PerformanceFxState {
+  const active = { ...inactivePerformanceFx }
+  for (const effect of performanceFxTypes) {
+    active[effect] = held[effect] || latched[effect]
+  }
+  return active
+}
+
+// Strobe flashes per beat
+export type StrobeRate = 'quarter' | 'eighth' | 'sixteenth'
+
+export const strobeRates: StrobeRate[] = ['quarter', 'eighth', 'sixteenth']
+
+export const strobeRateLabels: Record<StrobeRate, string> = {
+  quarter: '1/4',
+  eighth: '1/8',
+  sixteenth: '1/16'
+}
+
+const strobeDivisions: Record<StrobeRate, number> = {
+  quarter: 1,
+  eighth: 2,
+  sixteenth: 4
+}
+
+const STROBE_DUTY = 0.25 // share of each flash the screen stays white
+
+// What the final pass applies to the frame
+export interface PerformanceFxOutput {
+  black: number    // 0-1 fade to black
+  white: number    // 0-1 fade to white
+  invert: number   // 0-1 blend to inverted colors
+  freeze: boolean  // hold the last scene frame
+}
+
+// Fades blackout, whiteout and invert in and out, and times the strobe to the beat
+export class PerformanceFx {
+  private black: number = 0
+  private white: number = 0
+  private invert: number = 0
+  private fadeIn: number = 0.1  // seconds
+  private fadeOut: number = 0.3 // seconds
+  private strobeRate: StrobeRate = 'eighth'
+
+  setFadeTimes(fadeIn: number, fadeOut: number): void {
+    this.fadeIn = fadeIn
+    this.fadeOut = fadeOut
+  }
+
+  setStrobeRate(rate: StrobeRate): void {
+    this.strobeRate = rate
+  }
+
+  // `deltaTime` in ms
+  update(deltaTime: number, active: PerformanceFxState, beat: BeatInfo): PerformanceFxOutput {
+    this.black = this.fade(this.black, active.blackout, deltaTime)
+    this.white = this.fade(this.white, active.whiteout, deltaTime)
+    this.invert = this.fade(this.invert, active.invert, deltaTime)
+
+    // Strobe flashes are hard cuts; a fade would blur them into a flicker
+    const flashPhase = (beat.phase * strobeDivisions[this.strobeRate]) % 1
+    const flash = active.strobe && flashPhase < STROBE_DUTY ? 1 : 0
+
+    return {
+      black: this.black,
+      white: Math.max(this.white, flash),
+      invert: this.invert,
+      freeze: active.freeze
+    }
+  }
+
+  private fade(amount: number, on: boolean, deltaTime: number): number {
+    const duration = on ? this.fadeIn : this.fadeOut
+    if (duration <= 0) return on ? 1 : 0
+
+    const step = deltaTime / (duration * 1000)
+    return on ? Math.min(1, amount + step) : Math.max(0, amount - step)
+  }
+}
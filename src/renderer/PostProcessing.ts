@@ -138,7 +138,10 @@ export class PostProcessing {
       uniforms: {
         tDiffuse: { value: null },
         tBloom: { value: null },
-        bloomStrength: { value: this.bloomStrength }
+        bloomStrength: { value: this.bloomStrength },
+        fxBlack: { value: 0 },
+        fxWhite: { value: 0 },
+        fxInvert: { value: 0 }
       },
       vertexShader: `
         varying vec2 vUv;
@@ -151,11 +154,20 @@ export class PostProcessing {
         uniform sampler2D tDiffuse;
         uniform sampler2D tBloom;
         uniform float bloomStrength;
+        uniform float fxBlack;
+        uniform float fxWhite;
+        uniform float fxInvert;
         varying vec2 vUv;
         void main() {
           vec4 original = texture2D(tDiffuse, vUv);
           vec4 bloom = texture2D(tBloom, vUv);
-          gl_FragColor = original + bloom * bloomStrength;
+          vec3 color = (original + bloom * bloomStrength).rgb;
+
+          // Performance effects sit on top of everything
+          color = mix(color, vec3(1.0) - clamp(color, 0.0, 1.0), fxInvert);
+          color = mix(color, vec3(1.0), fxWhite);
+          color *= 1.0 - fxBlack;
+          gl_FragColor = vec4(color, 1.0);
         }
       `
     })
@@ -173,6 +185,13 @@ export class PostProcessing {
     this.compositeMaterial.uniforms.bloomStrength.value = strength
   }
 
+  // Blackout, white and invert amounts, 0-1
+  setPerformanceFx(black: number, white: number, invert: number): void {
+    this.compositeMaterial.uniforms.fxBlack.value = black
+    this.compositeMaterial.uniforms.fxWhite.value = white
+    this.compositeMaterial.uniforms.fxInvert.value = invert
+  }
+
   resize(width: number, height: number): void {
     this.width = width
     this.height = height
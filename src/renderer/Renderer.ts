@@ -1,11 +1,15 @@
 import * as THREE from 'three'
 import { PostProcessing } from './PostProcessing'
+import { AudioTextures, AudioUniforms } from './AudioTextures'
+import { PerformanceFxOutput } from './PerformanceFx'
+import { AudioFeatures, BeatInfo } from '../scenes/types'
 import { Quality } from '../store/useStore'
 
 export class Renderer {
   private renderer: THREE.WebGLRenderer
   private postProcessing: PostProcessing
   private renderTarget: THREE.WebGLRenderTarget
+  private audioTextures: AudioTextures = new AudioTextures()
 
   private width: number = 0
   private height: number = 0
@@ -129,12 +133,25 @@ export class Renderer {
     return this.renderTarget
   }
 
+  // Shared audio textures and uniforms for scene shaders
+  getAudioUniforms(): AudioUniforms {
+    return this.audioTextures.uniforms
+  }
+
+  updateAudio(deltaTime: number, beat: BeatInfo, audio: AudioFeatures): void {
+    this.audioTextures.update(deltaTime, beat, audio)
+  }
+
   // Render scene to render target
   renderScene(scene: THREE.Scene, camera: THREE.Camera): void {
     this.renderer.setRenderTarget(this.renderTarget)
     this.renderer.render(scene, camera)
   }
 
+  setPerformanceFx(fx: PerformanceFxOutput): void {
+    this.postProcessing.setPerformanceFx(fx.black, fx.white, fx.invert)
+  }
+
   // Apply post-processing and render to screen
   renderToScreen(): void {
     this.postProcessing.render(this.renderTarget.texture)
@@ -147,6 +164,7 @@ export class Renderer {
   }
 
   dispose(): void {
+    this.audioTextures.dispose()
     this.renderTarget.dispose()
     this.postProcessing.dispose()
     this.renderer.dispose()
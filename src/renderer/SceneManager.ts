@@ -1,6 +1,8 @@
 import * as THREE from 'three'
-import { Scene, BeatInfo, AudioFeatures, defaultAudioFeatures, defaultBeatInfo } from '../scenes/types'
+import { Scene, SceneParameter, BeatInfo, AudioFeatures, defaultAudioFeatures, defaultBeatInfo } from '../scenes/types'
 import { Renderer } from './Renderer'
+import { SceneTransition, TransitionType } from './SceneTransition'
+import { hslToRgb, rgbToHex } from '../utils/math'
 
 // Import all scenes
 import { VortexTunnel } from '../scenes/VortexTunnel'
@@ -24,10 +26,27 @@ export class SceneManager {
   private renderer: Renderer
   private scenes: Scene[] = []
   private currentSceneIndex: number = 0
+  private defaultParameters: SceneParameter[][] = []
   private initialized: boolean = false
+  private sceneParams: Record<string, Record<string, number | string>> = {}
+  // Hue forced onto every scene's color parameter, null to use their own
+  private hueOverride: number | null = null
+
+  // Transitions
+  private transition: SceneTransition
+  private transitionType: TransitionType = 'crossfade'
+  private transitionDuration: number = 1000 // ms
+  private previousSceneIndex: number = -1 // outgoing scene, -1 when idle
+  private outgoingCaptured: boolean = false // outgoing picture is a still of an interrupted blend
+  private transitionElapsed: number = 0
+  private beatCutFired: boolean = false
+  private time: number = 0
 
   constructor(renderer: Renderer) {
     this.renderer = renderer
+
+    const target = renderer.getRenderTarget()
+    this.transition = new SceneTransition(renderer.getWebGLRenderer(), target.width, target.height)
   }
 
   init(): void {
@@ -36,6 +55,7 @@ export class SceneManager {
     const webglRenderer = this.renderer.getWebGLRenderer()
     const width = this.renderer.getWidth()
     const height = this.renderer.getHeight()
+    const audioUniforms = this.renderer.getAudioUniforms()
 
     // Create all scenes
     this.scenes = [
@@ -59,9 +79,12 @@ export class SceneManager {
 
     // Initialize all scenes
     for (const scene of this.scenes) {
-      scene.init(webglRenderer, width, height)
+      scene.init(webglRenderer, width, height, audioUniforms)
     }
 
+    // Snapshot initial values so stored params can be reset later
+    this.defaultParameters = this.scenes.map(s => s.getParameters())
+
     this.initialized = true
   }
 
@@ -82,17 +105,112 @@ export class SceneManager {
   }
 
   setCurrentSceneIndex(index: number): void {
-    if (index >= 0 && index < this.scenes.length) {
-      this.currentSceneIndex = index
+    if (index < 0 || index >= this.scenes.length || index === this.currentSceneIndex) return
+
+    if (this.initialized && this.transitionType !== 'cut' && this.transitionDuration > 0) {
+      // Interrupting a transition: blend away from the frame on screen rather
+      // than cutting out the scene that was already on its way out
+      this.outgoingCaptured = this.isTransitioning()
+      if (this.outgoingCaptured) {
+        this.transition.captureFrom(this.renderer.getRenderTarget())
+      }
+      this.previousSceneIndex = this.currentSceneIndex
+      this.transitionElapsed = 0
+      this.beatCutFired = false
+    } else {
+      this.previousSceneIndex = -1
+      this.outgoingCaptured = false
+    }
+
+    this.currentSceneIndex = index
+  }
+
+  setTransitionType(type: TransitionType): void {
+    this.transitionType = type
+  }
+
+  getTransitionType(): TransitionType {
+    return this.transitionType
+  }
+
+  // Duration in milliseconds
+  setTransitionDuration(duration: number): void {
+    this.transitionDuration = Math.max(0, duration)
+  }
+
+  isTransitioning(): boolean {
+    return this.previousSceneIndex >= 0
+  }
+
+  private getTransitionProgress(): number {
+    if (this.transitionType === 'beat-cut') {
+      return this.beatCutFired ? 1 : 0
+    }
+    return this.transitionDuration > 0
+      ? Math.min(1, this.transitionElapsed / this.transitionDuration)
+      : 1
+  }
+
+  getSceneParameters(index: number = this.currentSceneIndex): SceneParameter[] {
+    const scene = this.scenes[index]
+    return scene ? scene.getParameters() : []
+  }
+
+  getDefaultSceneParameters(): SceneParameter[][] {
+    return this.defaultParameters
+  }
+
+  // Apply stored parameter values, keyed by scene name.
+  // Parameters without a stored value fall back to the scene's initial value.
+  applySceneParams(sceneParams: Record<string, Record<string, number | string>>): void {
+    this.sceneParams = sceneParams
+    this.scenes.forEach((scene, index) => {
+      const params = sceneParams[scene.name] || {}
+
+      for (const param of this.defaultParameters[index] || []) {
+        const value = params[param.key]
+        scene.setParameter(param.key, value !== undefined ? value : param.value)
+      }
+    })
+
+    if (this.hueOverride !== null) {
+      this.applyHue(this.hueOverride)
+    }
+  }
+
+  // Drive every scene's color from one hue (0-1); null restores their own colors
+  setHueOverride(hue: number | null): void {
+    if (hue === this.hueOverride) return
+
+    const wasOverridden = this.hueOverride !== null
+    this.hueOverride = hue
+    if (hue !== null) {
+      this.applyHue(hue)
+    } else if (wasOverridden) {
+      this.applySceneParams(this.sceneParams)
     }
   }
 
+  // Hue parameters take the hue as is, color pickers a saturated color of that hue
+  private applyHue(hue: number): void {
+    const color = rgbToHex(...hslToRgb(hue, 1, 0.5))
+    this.scenes.forEach((scene, index) => {
+      for (const param of this.defaultParameters[index] || []) {
+        if (param.key === 'colorHue') {
+          scene.setParameter(param.key, hue)
+        } else if (param.type === 'color') {
+          scene.setParameter(param.key, color)
+        }
+      }
+    })
+  }
+
   nextScene(): void {
-    this.currentSceneIndex = (this.currentSceneIndex + 1) % this.scenes.length
+    this.setCurrentSceneIndex((this.currentSceneIndex + 1) % this.scenes.length)
   }
 
   prevScene(): void {
-    this.currentSceneIndex = (this.currentSceneIndex - 1 + this.scenes.length) % this.scenes.length
+    this.setCurrentSceneIndex((this.currentSceneIndex - 1 + this.scenes.length) % this.scenes.length)
   }
 
   update(
@@ -101,6 +219,29 @@ export class SceneManager {
     beat: BeatInfo = defaultBeatInfo,
     audio: AudioFeatures = defaultAudioFeatures
   ): void {
+    this.time = time
+
+    // Shared audio textures first, so every scene sees this frame's data
+    this.renderer.updateAudio(deltaTime, beat, audio)
+
+    if (this.isTransitioning()) {
+      this.transitionElapsed += deltaTime
+
+      // Beat cut waits for the next onset; the duration acts as a timeout
+      if (this.transitionType === 'beat-cut' &&
+          (beat.isOnset || this.transitionElapsed >= this.transitionDuration)) {
+        this.beatCutFired = true
+      }
+
+      if (this.getTransitionProgress() >= 1) {
+        this.previousSceneIndex = -1
+        this.outgoingCaptured = false
+      } else if (!this.outgoingCaptured) {
+        // Keep the outgoing scene animating while it is still visible
+        this.scenes[this.previousSceneIndex].update(time, deltaTime, beat, audio)
+      }
+    }
+
     const scene = this.getCurrentScene()
     if (scene) {
       scene.update(time, deltaTime, beat, audio)
@@ -109,17 +250,32 @@ export class SceneManager {
 
   render(): void {
     const scene = this.getCurrentScene()
-    if (scene) {
-      const webglRenderer = this.renderer.getWebGLRenderer()
-      const renderTarget = this.renderer.getRenderTarget()
+    if (!scene) return
+
+    const webglRenderer = this.renderer.getWebGLRenderer()
+    const renderTarget = this.renderer.getRenderTarget()
+
+    if (this.isTransitioning()) {
+      this.transition.setSize(renderTarget.width, renderTarget.height)
 
+      // Render both scenes to their own targets, then blend into the main target
+      if (!this.outgoingCaptured) {
+        webglRenderer.setRenderTarget(this.transition.getFromTarget())
+        this.scenes[this.previousSceneIndex].render(webglRenderer)
+      }
+
+      webglRenderer.setRenderTarget(this.transition.getToTarget())
+      scene.render(webglRenderer)
+
+      this.transition.render(this.transitionType, this.getTransitionProgress(), this.time, renderTarget)
+    } else {
       // Render scene to render target for post-processing
       webglRenderer.setRenderTarget(renderTarget)
       scene.render(webglRenderer)
-
-      // Apply post-processing and render to screen
-      this.renderer.renderToScreen()
     }
+
+    // Apply post-processing and render to screen
+    this.renderer.renderToScreen()
   }
 
   resize(width: number, height: number): void {
@@ -133,6 +289,10 @@ export class SceneManager {
       scene.dispose()
     }
     this.scenes = []
+    this.transition.dispose()
+    this.previousSceneIndex = -1
+    this.outgoingCaptured = false
+    this.hueOverride = null
     this.initialized = false
   }
 }
@@ -0,0 +1,231 @@
+import * as THREE from 'three'
+
+export type TransitionType = 'cut' | 'crossfade' | 'luma-wipe' | 'zoom-blur' | 'glitch-slice' | 'beat-cut'
+
+export const transitionTypes: TransitionType[] = [
+  'cut',
+  'crossfade',
+  'luma-wipe',
+  'zoom-blur',
+  'glitch-slice',
+  'beat-cut'
+]
+
+export const transitionLabels: Record<TransitionType, string> = {
+  'cut': 'Cut',
+  'crossfade': 'Crossfade',
+  'luma-wipe': 'Luma Wipe',
+  'zoom-blur': 'Zoom Blur',
+  'glitch-slice': 'Glitch',
+  'beat-cut': 'Beat Cut'
+}
+
+const vertexShader = `
+  varying vec2 vUv;
+  void main() {
+    vUv = uv;
+    gl_Position = vec4(position, 1.0);
+  }
+`
+
+// Shared uniforms and helpers prepended to every transition shader
+const fragmentHeader = `
+  uniform sampler2D tFrom;
+  uniform sampler2D tTo;
+  uniform float uProgress;
+  uniform float uTime;
+  varying vec2 vUv;
+
+  #define PI 3.14159265359
+
+  float hash(float n) {
+    return fract(sin(n) * 43758.5453);
+  }
+
+  float luma(vec3 color) {
+    return dot(color, vec3(0.299, 0.587, 0.114));
+  }
+`
+
+const fragmentShaders: Record<Exclude<TransitionType, 'cut'>, string> = {
+  'crossfade': `
+    void main() {
+      vec4 from = texture2D(tFrom, vUv);
+      vec4 to = texture2D(tTo, vUv);
+      gl_FragColor = mix(from, to, uProgress);
+    }
+  `,
+
+  // Bright areas of the incoming scene burn through first
+  'luma-wipe': `
+    void main() {
+      vec4 from = texture2D(tFrom, vUv);
+      vec4 to = texture2D(tTo, vUv);
+      float t = uProgress * 1.2;
+      float m = smoothstep(1.0 - t, 1.2 - t, luma(to.rgb));
+      gl_FragColor = mix(from, to, m);
+    }
+  `,
+
+  // Radial blur that peaks halfway through the transition
+  'zoom-blur': `
+    void main() {
+      vec2 center = vec2(0.5);
+      vec2 dir = vUv - center;
+      float strength = sin(uProgress * PI) * 0.3;
+      float m = smoothstep(0.3, 0.7, uProgress);
+
+      vec4 color = vec4(0.0);
+      for (int i = 0; i < 12; i++) {
+        float scale = 1.0 - strength * float(i) / 12.0;
+        vec2 uv = center + dir * scale;
+        color += mix(texture2D(tFrom, uv), texture2D(tTo, uv), m);
+      }
+
+      gl_FragColor = color / 12.0;
+    }
+  `,
+
+  // Horizontal slices jump between scenes at random times
+  'glitch-slice': `
+    void main() {
+      float slices = 24.0;
+      float slice = floor(vUv.y * slices);
+      float jitter = floor(uTime * 20.0);
+      float glitch = sin(uProgress * PI);
+
+      vec2 uv = vUv;
+      uv.x += (hash(slice + jitter) - 0.5) * 0.2 * glitch;
+
+      vec4 from = texture2D(tFrom, uv);
+      vec4 to = texture2D(tTo, uv);
+      float m = step(hash(slice * 7.31), uProgress);
+      vec4 color = mix(from, to, m);
+
+      // RGB split on the glitched slices
+      float shift = 0.01 * glitch;
+      color.r = mix(texture2D(tFrom, uv + vec2(shift, 0.0)).r, texture2D(tTo, uv + vec2(shift, 0.0)).r, m);
+      color.b = mix(texture2D(tFrom, uv - vec2(shift, 0.0)).b, texture2D(tTo, uv - vec2(shift, 0.0)).b, m);
+
+      gl_FragColor = color;
+    }
+  `,
+
+  // Progress jumps from 0 to 1 on the next beat (driven by SceneManager)
+  'beat-cut': `
+    void main() {
+      vec4 from = texture2D(tFrom, vUv);
+      vec4 to = texture2D(tTo, vUv);
+      gl_FragColor = mix(from, to, step(0.5, uProgress));
+    }
+  `
+}
+
+// Blends an outgoing and incoming scene rendered to separate targets
+export class SceneTransition {
+  private renderer: THREE.WebGLRenderer
+
+  private renderTargetFrom: THREE.WebGLRenderTarget
+  private renderTargetTo: THREE.WebGLRenderTarget
+
+  private quadScene: THREE.Scene
+  private quadCamera: THREE.OrthographicCamera
+  private quadMesh: THREE.Mesh
+
+  private materials: Record<Exclude<TransitionType, 'cut'>, THREE.ShaderMaterial>
+
+  constructor(renderer: THREE.WebGLRenderer, width: number, height: number) {
+    this.renderer = renderer
+
+    const rtParams = {
+      minFilter: THREE.LinearFilter,
+      magFilter: THREE.LinearFilter,
+      format: THREE.RGBAFormat
+    }
+
+    this.renderTargetFrom = new THREE.WebGLRenderTarget(width, height, rtParams)
+    this.renderTargetTo = new THREE.WebGLRenderTarget(width, height, rtParams)
+
+    this.quadCamera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1)
+    this.quadScene = new THREE.Scene()
+
+    const createMaterial = (fragmentShader: string) => new THREE.ShaderMaterial({
+      uniforms: {
+        tFrom: { value: null },
+        tTo: { value: null },
+        uProgress: { value: 0 },
+        uTime: { value: 0 }
+      },
+      vertexShader,
+      fragmentShader: fragmentHeader + fragmentShader
+    })
+
+    this.materials = {
+      'crossfade': createMaterial(fragmentShaders['crossfade']),
+      'luma-wipe': createMaterial(fragmentShaders['luma-wipe']),
+      'zoom-blur': createMaterial(fragmentShaders['zoom-blur']),
+      'glitch-slice': createMaterial(fragmentShaders['glitch-slice']),
+      'beat-cut': createMaterial(fragmentShaders['beat-cut'])
+    }
+
+    this.quadMesh = new THREE.Mesh(new THREE.PlaneGeometry(2, 2), this.materials['crossfade'])
+    this.quadScene.add(this.quadMesh)
+  }
+
+  getFromTarget(): THREE.WebGLRenderTarget {
+    return this.renderTargetFrom
+  }
+
+  getToTarget(): THREE.WebGLRenderTarget {
+    return this.renderTargetTo
+  }
+
+  // Copies a finished frame into the outgoing target, to blend away from as a still
+  captureFrom(source: THREE.WebGLRenderTarget): void {
+    this.setSize(source.width, source.height)
+
+    const material = this.materials['crossfade']
+    material.uniforms.tFrom.value = source.texture
+    material.uniforms.tTo.value = source.texture
+    material.uniforms.uProgress.value = 0
+
+    this.quadMesh.material = material
+    this.renderer.setRenderTarget(this.renderTargetFrom)
+    this.renderer.render(this.quadScene, this.quadCamera)
+  }
+
+  // Keep targets in sync with the main scene target (quality changes alter pixel ratio)
+  setSize(width: number, height: number): void {
+    if (this.renderTargetFrom.width === width && this.renderTargetFrom.height === height) return
+
+    this.renderTargetFrom.setSize(width, height)
+    this.renderTargetTo.setSize(width, height)
+  }
+
+  render(
+    type: TransitionType,
+    progress: number,
+    time: number,
+    output: THREE.WebGLRenderTarget | null
+  ): void {
+    const material = this.materials[type === 'cut' ? 'beat-cut' : type]
+
+    material.uniforms.tFrom.value = this.renderTargetFrom.texture
+    material.uniforms.tTo.value = this.renderTargetTo.texture
+    material.uniforms.uProgress.value = progress
+    material.uniforms.uTime.value = time * 0.001
+
+    this.quadMesh.material = material
+    this.renderer.setRenderTarget(output)
+    this.renderer.render(this.quadScene, this.quadCamera)
+  }
+
+  dispose(): void {
+    this.renderTargetFrom.dispose()
+    this.renderTargetTo.dispose()
+    for (const material of Object.values(this.materials)) {
+      material.dispose()
+    }
+    this.quadMesh.geometry.dispose()
+  }
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { PerformanceFx, activePerformanceFx, inactivePerformanceFx } from '../PerformanceFx'
+import { defaultBeatInfo } from '../../scenes/types'
+
+const beat = { ...defaultBeatInfo, phase: 0.5 }
+
+describe('PerformanceFx', () => {
+  it('treats an effect as on while held or latched', () => {
+    const held = { ...inactivePerformanceFx, blackout: true }
+    const latched = { ...inactivePerformanceFx, strobe: true }
+    expect(activePerformanceFx(held, latched)).toEqual({ ...inactivePerformanceFx, blackout: true, strobe: true })
+  })
+
+  it('fades in and out over the set times', () => {
+    const fx = new PerformanceFx()
+    fx.setFadeTimes(0.1, 0.4)
+    const blackout = { ...inactivePerformanceFx, blackout: true }
+
+    expect(fx.update(50, blackout, beat).black).toBeCloseTo(0.5)
+    expect(fx.update(50, blackout, beat).black).toBe(1)
+    expect(fx.update(100, inactivePerformanceFx, beat).black).toBeCloseTo(0.75)
+    expect(fx.update(1000, inactivePerformanceFx, beat).black).toBe(0)
+
+    // No fade time cuts straight in
+    fx.setFadeTimes(0, 0)
+    expect(fx.update(1, { ...inactivePerformanceFx, invert: true }, beat).invert).toBe(1)
+  })
+
+  it('flashes the strobe on the beat subdivisions', () => {
+    const fx = new PerformanceFx()
+    const strobe = { ...inactivePerformanceFx, strobe: true }
+    const whiteAt = (phase: number) => fx.update(16, strobe, { ...defaultBeatInfo, phase }).white
+
+    fx.setStrobeRate('quarter')
+    expect([0, 0.2, 0.3, 0.5, 0.9].map(whiteAt)).toEqual([1, 1, 0, 0, 0])
+
+    fx.setStrobeRate('eighth')
+    expect([0, 0.2, 0.5, 0.7].map(whiteAt)).toEqual([1, 0, 1, 0])
+
+    // Stops with the effect, without fading out
+    expect(fx.update(16, inactivePerformanceFx, { ...defaultBeatInfo, phase: 0 }).white).toBe(0)
+  })
+})
@@ -433,12 +433,15 @@ export class CityFlythrough implements Scene {
       case 'buildingHeight':
         this.buildingHeight = value as number
         break
-      case 'colorHue':
+      case 'colorHue': {
+        // Shift every building by the same amount so each keeps its own variation
+        const shift = (value as number) - this.colorHue
         this.colorHue = value as number
         for (const material of this.buildingMaterials) {
-          material.uniforms.uColorHue.value = this.colorHue + (Math.random() - 0.5) * 0.2
+          material.uniforms.uColorHue.value += shift
         }
         break
+      }
       case 'flySpeed':
         this.flySpeed = value as number
         break
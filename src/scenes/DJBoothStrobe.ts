@@ -1,6 +1,8 @@
 import * as THREE from 'three'
 import { Scene, SceneParameter, BeatInfo, AudioFeatures } from './types'
 
+const SNARE_TIMEOUT = 2 // seconds without a snare before the strobe follows the beat
+
 export class DJBoothStrobe implements Scene {
   name = 'DJ Booth'
 
@@ -23,6 +25,8 @@ export class DJBoothStrobe implements Scene {
   private time: number = 0
   private currentPulse: number = 0
   private strobeActive: boolean = false
+  private dropStrobe: number = 0 // seconds of full strobe left after a drop
+  private sinceSnare: number = Infinity // seconds since the last snare or clap
   private spotlightRotation: number = 0
 
   constructor() {
@@ -55,6 +59,7 @@ export class DJBoothStrobe implements Scene {
         uColorHue: { value: this.colorHue },
         uBass: { value: 0 },
         uEnergy: { value: 0 },
+        uHat: { value: 0 },
         uSpotlightRotation: { value: 0 },
         uStrobeIntensity: { value: this.strobeIntensity },
         uFogDensity: { value: this.fogDensity }
@@ -74,6 +79,7 @@ export class DJBoothStrobe implements Scene {
         uniform float uColorHue;
         uniform float uBass;
         uniform float uEnergy;
+        uniform float uHat;
         uniform float uSpotlightRotation;
         uniform float uStrobeIntensity;
         uniform float uFogDensity;
@@ -277,7 +283,7 @@ export class DJBoothStrobe implements Scene {
             float p = exp(-length(uv - particlePos) * 50.0);
             particles += p * spotlightSum;
           }
-          color += vec3(1.0) * particles * 0.3;
+          color += vec3(1.0) * particles * (0.3 + uHat * 0.7);
 
           // Vignette
           float vignette = 1.0 - length(vUv - 0.5) * 0.7;
@@ -296,17 +302,31 @@ export class DJBoothStrobe implements Scene {
     this.time = time
     const dt = deltaTime * 0.001
 
-    // Update pulse and strobe on beat
+    // Pulse on the beat, strobe on snares and claps; with no snare for a while
+    // (breakdowns, sparse techno) the strobe falls back to the beat
+    this.sinceSnare = audio.snareOnset ? 0 : this.sinceSnare + dt
+    const snareDriven = this.sinceSnare < SNARE_TIMEOUT
     if (beat.isOnset) {
       this.currentPulse = 1.0
+    }
+    if (audio.snareOnset || (!snareDriven && beat.isOnset)) {
       this.strobeActive = true
     }
     this.currentPulse *= 0.85
 
+    // The drop sets off a couple of seconds of full-power strobe
+    if (beat.isDrop) {
+      this.dropStrobe = 2
+      this.currentPulse = 1.0
+    }
+    this.dropStrobe = Math.max(0, this.dropStrobe - dt)
+
     // Strobe timing
     const strobeFreq = 15 + audio.energy * 20
-    const strobe = this.strobeActive ? Math.sin(time * 0.001 * strobeFreq * Math.PI * 2) : 0
+    const flash = Math.sin(time * 0.001 * strobeFreq * Math.PI * 2)
+    const strobe = this.strobeActive ? flash : 0
     if (strobe < 0) this.strobeActive = false
+    const dropStrobe = this.dropStrobe > 0 ? Math.max(0, flash) * Math.min(1, this.dropStrobe) : 0
 
     // Rotate spotlights
     this.spotlightRotation += dt * (1.0 + audio.energy) * this.spotlightAngle
@@ -314,10 +334,12 @@ export class DJBoothStrobe implements Scene {
     // Update uniforms
     this.material.uniforms.uTime.value = time * 0.001
     this.material.uniforms.uPulse.value = this.currentPulse
-    this.material.uniforms.uStrobe.value = Math.max(0, strobe) * this.currentPulse
+    const strobeLevel = snareDriven ? audio.snare : this.currentPulse
+    this.material.uniforms.uStrobe.value = Math.max(Math.max(0, strobe) * strobeLevel, dropStrobe)
     this.material.uniforms.uColorHue.value = this.colorHue
     this.material.uniforms.uBass.value = audio.bass
     this.material.uniforms.uEnergy.value = audio.energy
+    this.material.uniforms.uHat.value = audio.hat
     this.material.uniforms.uSpotlightRotation.value = this.spotlightRotation
     this.material.uniforms.uStrobeIntensity.value = this.strobeIntensity
     this.material.uniforms.uFogDensity.value = this.fogDensity
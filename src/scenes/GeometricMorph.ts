@@ -359,9 +359,13 @@ export class GeometricMorph implements Scene {
     this.time = time
     const dt = deltaTime * 0.001
 
-    // Update pulse and trigger morph
+    // Pulse on every beat
     if (beat.isOnset) {
       this.currentPulse = 1.0
+    }
+
+    // Morph to the next shape on each downbeat
+    if (beat.isDownbeat) {
       // Advance to next shape
       this.currentShape = this.targetShape
       this.targetShape = (this.targetShape + 1) % 4
@@ -1,5 +1,6 @@
 import * as THREE from 'three'
 import { Scene, SceneParameter, BeatInfo, AudioFeatures } from './types'
+import { AudioUniforms, audioUniformsGLSL } from '../renderer/AudioTextures'
 
 export class Kaleidoscope implements Scene {
   name = 'Kaleidoscope'
@@ -31,7 +32,7 @@ export class Kaleidoscope implements Scene {
     this.mesh = new THREE.Mesh()
   }
 
-  init(renderer: THREE.WebGLRenderer, width: number, height: number): void {
+  init(renderer: THREE.WebGLRenderer, width: number, height: number, audio: AudioUniforms): void {
     this.width = width
     this.height = height
     this.aspect = width / height
@@ -47,14 +48,11 @@ export class Kaleidoscope implements Scene {
 
     this.material = new THREE.ShaderMaterial({
       uniforms: {
+        ...audio,
         uTime: { value: 0 },
         uResolution: { value: new THREE.Vector2(width, height) },
         uPulse: { value: 0 },
         uColorHue: { value: this.colorHue },
-        uBass: { value: 0 },
-        uMid: { value: 0 },
-        uHigh: { value: 0 },
-        uEnergy: { value: 0 },
         uSegments: { value: this.segments },
         uRotation: { value: 0 },
         uComplexity: { value: this.complexity }
@@ -67,14 +65,11 @@ export class Kaleidoscope implements Scene {
         }
       `,
       fragmentShader: `
+        ${audioUniformsGLSL}
         uniform float uTime;
         uniform vec2 uResolution;
         uniform float uPulse;
         uniform float uColorHue;
-        uniform float uBass;
-        uniform float uMid;
-        uniform float uHigh;
-        uniform float uEnergy;
         uniform float uSegments;
         uniform float uRotation;
         uniform float uComplexity;
@@ -175,6 +170,10 @@ export class Kaleidoscope implements Scene {
           // Apply kaleidoscope effect
           vec2 kUv = kaleidoscope(uv, uSegments);
 
+          // The waveform ripples the mirror edges
+          float edgeAngle = atan(kUv.y, kUv.x) / (PI / uSegments);
+          kUv *= 1.0 + audioWaveform(edgeAngle) * 0.08;
+
           // Zoom based on audio
           float zoom = 1.0 + uBass * 0.3 + uPulse * 0.2;
           kUv /= zoom;
@@ -206,6 +205,10 @@ export class Kaleidoscope implements Scene {
 
           vec3 color = hsl2rgb(mod(hue, 1.0), saturation, lightness);
 
+          // Spectrum rings: low frequencies near the center, highs outside
+          float ring = audioSpectrum(clamp(length(uv) * 0.4, 0.0, 1.0));
+          color += hsl2rgb(uColorHue + 0.25, 1.0, 0.6) * pow(ring, 3.0) * 0.5;
+
           // Add glow at center
           float centerGlow = exp(-length(uv) * 2.0);
           color += hsl2rgb(uColorHue + 0.5, 1.0, 0.5) * centerGlow * (0.3 + uPulse * 0.7);
@@ -238,8 +241,11 @@ export class Kaleidoscope implements Scene {
     // Update pulse
     if (beat.isOnset) {
       this.currentPulse = 1.0
-      // Change rotation direction or speed on beat
-      this.rotationSpeed *= Math.random() > 0.5 ? 1 : -1
+    }
+
+    // Flip rotation direction at the start of each phrase
+    if (beat.isPhraseStart) {
+      this.rotationSpeed *= -1
     }
     this.currentPulse *= 0.9
 
@@ -250,10 +256,6 @@ export class Kaleidoscope implements Scene {
     this.material.uniforms.uTime.value = time * 0.001
     this.material.uniforms.uPulse.value = this.currentPulse
     this.material.uniforms.uColorHue.value = this.colorHue
-    this.material.uniforms.uBass.value = audio.bass
-    this.material.uniforms.uMid.value = audio.mid
-    this.material.uniforms.uHigh.value = audio.high
-    this.material.uniforms.uEnergy.value = audio.energy
     this.material.uniforms.uSegments.value = this.segments
     this.material.uniforms.uRotation.value = this.rotation
     this.material.uniforms.uComplexity.value = this.complexity
@@ -56,6 +56,9 @@ export class LaserStorm implements Scene {
         uColorHue: { value: this.colorHue },
         uBass: { value: 0 },
         uEnergy: { value: 0 },
+        uKick: { value: 0 },
+        uSnare: { value: 0 },
+        uHat: { value: 0 },
         uLaserCount: { value: this.laserCount }
       },
       vertexShader: `
@@ -72,6 +75,9 @@ export class LaserStorm implements Scene {
         uniform float uColorHue;
         uniform float uBass;
         uniform float uEnergy;
+        uniform float uKick;
+        uniform float uSnare;
+        uniform float uHat;
         uniform float uLaserCount;
 
         varying vec2 vUv;
@@ -164,18 +170,20 @@ export class LaserStorm implements Scene {
 
             // Color per laser
             float hue = uColorHue + fi / uLaserCount * 0.5;
-            color += hsl2rgb(mod(hue, 1.0), 1.0, 0.6) * l * 0.3;
+            // Hats flicker alternate beams
+            float flicker = 1.0 + uHat * mod(fi, 2.0);
+            color += hsl2rgb(mod(hue, 1.0), 1.0, 0.6) * l * 0.3 * flicker;
           }
 
-          // Strobe effect
-          float strobe = step(0.9, fract(uTime * 4.0)) * uPulse;
+          // Strobe flash on snares and claps
+          float strobe = step(0.5, uSnare) * uSnare;
           color += vec3(1.0) * strobe * 0.5;
 
           // Radial pulse waves
           float dist = length(centeredUv);
           float wave = sin(dist * 20.0 - uTime * 5.0) * 0.5 + 0.5;
           wave *= exp(-dist * 2.0);
-          wave *= uPulse;
+          wave *= max(uPulse, uKick);
           color += hsl2rgb(uColorHue, 1.0, 0.7) * wave * 0.3;
 
           // Central glow
@@ -312,6 +320,9 @@ export class LaserStorm implements Scene {
     this.laserMaterial.uniforms.uColorHue.value = this.colorHue
     this.laserMaterial.uniforms.uBass.value = audio.bass
     this.laserMaterial.uniforms.uEnergy.value = audio.energy
+    this.laserMaterial.uniforms.uKick.value = audio.kick
+    this.laserMaterial.uniforms.uSnare.value = audio.snare
+    this.laserMaterial.uniforms.uHat.value = audio.hat
     this.laserMaterial.uniforms.uLaserCount.value = this.laserCount
 
     // Update particle uniforms
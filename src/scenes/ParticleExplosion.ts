@@ -35,6 +35,7 @@ export class ParticleExplosion implements Scene {
   // Animation state
   private time: number = 0
   private currentPulse: number = 0
+  private dropFlash: number = 0
   private particleData: Particle[] = []
   private rotation: number = 0
 
@@ -126,7 +127,8 @@ export class ParticleExplosion implements Scene {
         uTime: { value: 0 },
         uColorHue: { value: this.colorHue },
         uEnergy: { value: 0 },
-        uPulse: { value: 0 }
+        uPulse: { value: 0 },
+        uFlash: { value: 0 }
       },
       vertexShader: `
         varying vec2 vUv;
@@ -140,6 +142,7 @@ export class ParticleExplosion implements Scene {
         uniform float uColorHue;
         uniform float uEnergy;
         uniform float uPulse;
+        uniform float uFlash;
         varying vec2 vUv;
 
         vec3 hsl2rgb(float h, float s, float l) {
@@ -164,6 +167,9 @@ export class ParticleExplosion implements Scene {
           ring = pow(ring, 8.0) * exp(-dist * 3.0) * uPulse;
           color += hsl2rgb(uColorHue, 1.0, 0.5) * ring;
 
+          // Drop flash
+          color += hsl2rgb(uColorHue, 1.0, 0.7) * uFlash * exp(-dist * 2.0);
+
           // Vignette
           color *= 1.0 - dist * 0.5;
 
@@ -252,8 +258,16 @@ export class ParticleExplosion implements Scene {
     }
     this.currentPulse *= 0.9
 
-    // Rotate camera slowly
-    this.rotation += dt * 0.1 * (1 + audio.energy * 0.5)
+    // The drop gets the biggest burst, from the center
+    if (beat.isDrop) {
+      this.dropFlash = 1.0
+      this.explode(0, 0, 0, 3)
+    }
+    this.dropFlash *= 0.95
+
+    // Rotate camera slowly, winding up through a build-up
+    const buildup = audio.section === 'buildup' ? audio.sectionConfidence : 0
+    this.rotation += dt * 0.1 * (1 + audio.energy * 0.5 + buildup * 3)
     this.camera.position.x = Math.sin(this.rotation) * 5
     this.camera.position.z = Math.cos(this.rotation) * 5
     this.camera.lookAt(0, 0, 0)
@@ -340,6 +354,7 @@ export class ParticleExplosion implements Scene {
     this.backgroundMaterial.uniforms.uColorHue.value = this.colorHue
     this.backgroundMaterial.uniforms.uEnergy.value = audio.energy
     this.backgroundMaterial.uniforms.uPulse.value = this.currentPulse
+    this.backgroundMaterial.uniforms.uFlash.value = this.dropFlash
   }
 
   resize(width: number, height: number): void {
@@ -284,6 +284,11 @@ export class PongBattle implements Scene {
         this.ballVY = (this.ballVY / speed) * maxSpeed
       }
     }
+
+    // Flash the court on each downbeat
+    if (beat.isDownbeat) {
+      this.hitFlash = Math.max(this.hitFlash, 0.6)
+    }
     this.currentPulse *= 0.9
     this.hitFlash *= 0.85
 
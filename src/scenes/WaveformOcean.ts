@@ -1,5 +1,6 @@
 import * as THREE from 'three'
 import { Scene, SceneParameter, BeatInfo, AudioFeatures } from './types'
+import { AudioUniforms, audioUniformsGLSL } from '../renderer/AudioTextures'
 
 export class WaveformOcean implements Scene {
   name = 'Waveform Ocean'
@@ -34,7 +35,7 @@ export class WaveformOcean implements Scene {
     this.skyMesh = new THREE.Mesh()
   }
 
-  init(renderer: THREE.WebGLRenderer, width: number, height: number): void {
+  init(renderer: THREE.WebGLRenderer, width: number, height: number, audio: AudioUniforms): void {
     this.width = width
     this.height = height
 
@@ -49,24 +50,18 @@ export class WaveformOcean implements Scene {
 
     this.planeMaterial = new THREE.ShaderMaterial({
       uniforms: {
+        ...audio,
         uTime: { value: 0 },
         uPulse: { value: 0 },
         uColorHue: { value: this.colorHue },
-        uBass: { value: 0 },
-        uMid: { value: 0 },
-        uHigh: { value: 0 },
-        uEnergy: { value: 0 },
         uWaveDensity: { value: this.waveDensity },
         uWaveAmplitude: { value: this.waveAmplitude },
         uCameraZ: { value: 0 }
       },
       vertexShader: `
+        ${audioUniformsGLSL}
         uniform float uTime;
         uniform float uPulse;
-        uniform float uBass;
-        uniform float uMid;
-        uniform float uHigh;
-        uniform float uEnergy;
         uniform float uWaveDensity;
         uniform float uWaveAmplitude;
         uniform float uCameraZ;
@@ -106,6 +101,12 @@ export class WaveformOcean implements Scene {
           float pulseWave = sin(length(pos.xz) * 2.0 - uTime * 5.0) * uPulse;
           wave += pulseWave * uWaveAmplitude;
 
+          // Spectrogram ridges rolling away from the viewer: lows along the
+          // center line, highs out to the sides, newest closest
+          float frequency = pow(abs(pos.x) / 20.0, 2.0);
+          float age = clamp((4.0 - pos.z) / 24.0, 0.0, 1.0);
+          wave += audioSpectrogram(frequency, age) * 1.5 * uWaveAmplitude;
+
           pos.y = wave;
           vHeight = wave;
 
@@ -117,10 +118,10 @@ export class WaveformOcean implements Scene {
         }
       `,
       fragmentShader: `
+        ${audioUniformsGLSL}
         uniform float uTime;
         uniform float uPulse;
         uniform float uColorHue;
-        uniform float uEnergy;
 
         varying vec2 vUv;
         varying float vHeight;
@@ -256,10 +257,6 @@ export class WaveformOcean implements Scene {
     this.planeMaterial.uniforms.uTime.value = time * 0.001
     this.planeMaterial.uniforms.uPulse.value = this.currentPulse
     this.planeMaterial.uniforms.uColorHue.value = this.colorHue
-    this.planeMaterial.uniforms.uBass.value = audio.bass
-    this.planeMaterial.uniforms.uMid.value = audio.mid
-    this.planeMaterial.uniforms.uHigh.value = audio.high
-    this.planeMaterial.uniforms.uEnergy.value = audio.energy
     this.planeMaterial.uniforms.uWaveDensity.value = this.waveDensity
     this.planeMaterial.uniforms.uWaveAmplitude.value = this.waveAmplitude
     this.planeMaterial.uniforms.uCameraZ.value = this.cameraZ
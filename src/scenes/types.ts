@@ -1,20 +1,74 @@
 import * as THREE from 'three'
+import { BAND_COUNT } from '../audio/BandSpectrum'
+import { PITCH_CLASS_COUNT } from '../audio/Chromagram'
+import { AudioUniforms } from '../renderer/AudioTextures'
 
-export type MicStatus = 'off' | 'requesting' | 'on' | 'blocked' | 'no-device'
+export type InputSource = 'mic' | 'file' | 'display'
+
+// Which channel of a multi-channel input feeds the analysis
+export type InputChannel = 'mono' | 'left' | 'right'
+
+export type InputStatus =
+  | 'off'
+  | 'requesting'
+  | 'loading'
+  | 'on'
+  | 'blocked'
+  | 'no-device'
+  | 'no-audio'   // display capture without an audio track
+  | 'error'
+
+// Where a dance track is in its arrangement
+export type SongSection = 'groove' | 'breakdown' | 'buildup' | 'drop'
+
+export type KeyMode = 'major' | 'minor'
 
 export interface BeatInfo {
   phase: number       // 0-1, position within beat
   intensity: number   // 0-1, beat strength
   isOnset: boolean    // true on beat hit
   bpm: number
+
+  // Bar / phrase position (4 beats per bar, 8 bars per phrase)
+  beatIndex: number      // beats since the downbeat reference
+  beatInBar: number      // 0-3
+  barIndex: number       // bars since the downbeat reference
+  barPhase: number       // 0-1, position within bar
+  phraseIndex: number    // 8-bar phrases since the downbeat reference
+  isDownbeat: boolean    // true on the first beat of a bar
+  isPhraseStart: boolean // true on the first beat of a phrase
+  isDrop: boolean        // true on the beat a detected drop lands
 }
 
 export interface AudioFeatures {
   energy: number       // 0-1, overall RMS
-  bass: number         // 0-1, low frequency energy
-  mid: number          // 0-1, mid frequency energy
-  high: number         // 0-1, high frequency energy
+  bass: number         // 0-1, energy below the low crossover
+  mid: number          // 0-1, energy between the crossovers
+  high: number         // 0-1, energy above the high crossover
+  kick: number         // 0-1, drum envelopes: jump to 1 on a hit and decay
+  snare: number        // snare and claps
+  hat: number          // hi-hats
+  kickOnset: boolean   // true on the frame a kick is detected
+  snareOnset: boolean
+  hatOnset: boolean
+  // Timbre, each 0-1 relative to the recent range of the music
+  centroid: number     // spectral centroid: brightness
+  rolloff: number      // frequency below which most energy sits
+  flatness: number     // 0 = tonal, 1 = noisy
+  flux: number         // overall spectral change
+  zcr: number          // zero-crossing rate: noisiness / brightness
+  loudness: number     // short-term loudness
+  // Song structure
+  section: SongSection
+  sectionConfidence: number // 0-1
+  dropOnset: boolean   // true on the frame a drop is detected
+  // Harmony
+  chroma: Float32Array // 0-1 per pitch class, C first; the strongest is 1
+  key: number | null   // pitch class of the tonic, 0 = C; null until estimated
+  keyMode: KeyMode
+  keyConfidence: number // 0-1
   spectrum: Float32Array // Full FFT data
+  bands: Float32Array    // Log-spaced band spectrum, BAND_COUNT bands from 30 Hz to 16 kHz
   waveform: Float32Array // Time domain data
 }
 
@@ -31,7 +85,8 @@ export interface SceneParameter {
 
 export interface Scene {
   name: string
-  init(renderer: THREE.WebGLRenderer, width: number, height: number): void
+  // `audio` holds the shared audio uniforms; spread it into a material's uniforms
+  init(renderer: THREE.WebGLRenderer, width: number, height: number, audio: AudioUniforms): void
   update(time: number, deltaTime: number, beat: BeatInfo, audio: AudioFeatures): void
   resize(width: number, height: number): void
   dispose(): void
@@ -45,7 +100,27 @@ export const defaultAudioFeatures: AudioFeatures = {
   bass: 0,
   mid: 0,
   high: 0,
+  kick: 0,
+  snare: 0,
+  hat: 0,
+  kickOnset: false,
+  snareOnset: false,
+  hatOnset: false,
+  centroid: 0,
+  rolloff: 0,
+  flatness: 0,
+  flux: 0,
+  zcr: 0,
+  loudness: 0,
+  section: 'groove',
+  sectionConfidence: 0,
+  dropOnset: false,
+  chroma: new Float32Array(PITCH_CLASS_COUNT),
+  key: null,
+  keyMode: 'major',
+  keyConfidence: 0,
   spectrum: new Float32Array(256),
+  bands: new Float32Array(BAND_COUNT),
   waveform: new Float32Array(256)
 }
 
@@ -53,5 +128,13 @@ export const defaultBeatInfo: BeatInfo = {
   phase: 0,
   intensity: 0,
   isOnset: false,
-  bpm: 140
+  bpm: 140,
+  beatIndex: 0,
+  beatInBar: 0,
+  barIndex: 0,
+  barPhase: 0,
+  phraseIndex: 0,
+  isDownbeat: false,
+  isPhraseStart: false,
+  isDrop: false
 }
@@ -0,0 +1,284 @@
+import { PersistOptions, createJSONStorage } from 'zustand/middleware'
+import type { AppState, Quality } from './useStore'
+import { InputChannel } from '../scenes/types'
+import { TransitionType, transitionTypes } from '../renderer/SceneTransition'
+import { QuantizeMode, quantizeModes } from '../audio/BeatQuantizer'
+import { FFTSize, fftSizes } from '../audio/FrameAnalyzer'
+import { MIN_TEMPO, MAX_TEMPO } from '../audio/TempoEstimator'
+import { TempoSource, tempoSources } from '../midi/MidiClock'
+import { MidiControl, MidiMapping, MidiTarget, encoderModes } from '../midi/MidiMapping'
+import { MidiDeviceProfile, midiDeviceProfiles } from '../midi/MidiFeedback'
+import { parseKeymap } from '../keyboard/keymap'
+import { StrobeRate, performanceFxTypes, strobeRates } from '../renderer/PerformanceFx'
+import { clamp } from '../utils/math'
+
+export const STORAGE_KEY = 'raveflow-settings'
+export const STORAGE_VERSION = 1
+
+// Subset of the store that survives page reloads
+export type PersistedSettings = Pick<
+  AppState,
+  | 'quality'
+  | 'sensitivity'
+  | 'smoothing'
+  | 'fftSize'
+  | 'lowCrossover'
+  | 'highCrossover'
+  | 'masterIntensity'
+  | 'inputDeviceId'
+  | 'inputChannel'
+  | 'inputGain'
+  | 'tempoSource'
+  | 'bpm'
+  | 'autoLockBPM'
+  | 'autoSwitchOnDrop'
+  | 'harmonicColor'
+  | 'quantizeMode'
+  | 'transitionType'
+  | 'transitionDuration'
+  | 'midiEnabled'
+  | 'midiMappings'
+  | 'midiOutputProfiles'
+  | 'keymap'
+  | 'fxFadeIn'
+  | 'fxFadeOut'
+  | 'strobeRate'
+  | 'sceneParams'
+>
+
+type PersistedRecord = Record<string, unknown>
+
+// Each entry upgrades a stored state from (version - 1) to version.
+// New fields fall back to store defaults on their own; add an entry and bump
+// STORAGE_VERSION when an existing field is renamed or changes meaning.
+const migrations: Record<number, (state: PersistedRecord) => PersistedRecord> = {
+  // v1: first versioned schema - nothing stored before it is trusted
+  1: () => ({})
+}
+
+function isRecord(value: unknown): value is PersistedRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function readNumber(value: unknown, min: number, max: number): number | undefined {
+  return typeof value === 'number' && isFinite(value) ? clamp(value, min, max) : undefined
+}
+
+function readBoolean(value: unknown): boolean | undefined {
+  return typeof value === 'boolean' ? value : undefined
+}
+
+function readQuality(value: unknown): Quality | undefined {
+  return value === 'low' || value === 'medium' || value === 'high' ? value : undefined
+}
+
+function readInputChannel(value: unknown): InputChannel | undefined {
+  return value === 'mono' || value === 'left' || value === 'right' ? value : undefined
+}
+
+function readTransitionType(value: unknown): TransitionType | undefined {
+  return transitionTypes.find(type => type === value)
+}
+
+function readQuantizeMode(value: unknown): QuantizeMode | undefined {
+  return quantizeModes.find(mode => mode === value)
+}
+
+function readFFTSize(value: unknown): FFTSize | undefined {
+  return fftSizes.find(size => size === value)
+}
+
+function readTempoSource(value: unknown): TempoSource | undefined {
+  return tempoSources.find(source => source === value)
+}
+
+function readStrobeRate(value: unknown): StrobeRate | undefined {
+  return strobeRates.find(rate => rate === value)
+}
+
+function readInteger(value: unknown, min: number, max: number): number | undefined {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max ? value : undefined
+}
+
+function readMidiControl(value: unknown): MidiControl | undefined {
+  if (!isRecord(value)) return undefined
+
+  const channel = readInteger(value.channel, 0, 15)
+  const number = readInteger(value.number, 0, 127)
+  if ((value.type !== 'cc' && value.type !== 'note' && value.type !== 'pitchbend') ||
+      channel === undefined || number === undefined) return undefined
+  return { type: value.type, channel, number }
+}
+
+function readMidiTarget(value: unknown): MidiTarget | undefined {
+  if (!isRecord(value)) return undefined
+
+  switch (value.kind) {
+    case 'masterIntensity':
+    case 'tapTempo':
+    case 'pause':
+    case 'beatPulse':
+      return { kind: value.kind }
+    case 'scene': {
+      const index = readInteger(value.index, 0, 99)
+      return index === undefined ? undefined : { kind: 'scene', index }
+    }
+    case 'sceneParam':
+      return typeof value.scene === 'string' && typeof value.param === 'string'
+        ? { kind: 'sceneParam', scene: value.scene, param: value.param }
+        : undefined
+    case 'fxHold':
+    case 'fxLatch': {
+      const effect = performanceFxTypes.find(type => type === value.effect)
+      return effect ? { kind: value.kind, effect } : undefined
+    }
+  }
+  return undefined
+}
+
+function readMidiMappings(value: unknown): MidiMapping[] | undefined {
+  if (!Array.isArray(value)) return undefined
+
+  const mappings: MidiMapping[] = []
+  for (const entry of value) {
+    if (!isRecord(entry)) continue
+
+    const control = readMidiControl(entry.control)
+    const target = readMidiTarget(entry.target)
+    const min = readNumber(entry.min, 0, 1)
+    const max = readNumber(entry.max, 0, 1)
+    const encoder = encoderModes.find(mode => mode === entry.encoder)
+    const softTakeover = readBoolean(entry.softTakeover)
+    if (control && target && min !== undefined && max !== undefined && encoder && softTakeover !== undefined) {
+      mappings.push({ control, target, min, max, encoder, softTakeover })
+    }
+  }
+  return mappings
+}
+
+function readMidiOutputProfiles(value: unknown): Record<string, MidiDeviceProfile> | undefined {
+  if (!isRecord(value)) return undefined
+
+  const profiles: Record<string, MidiDeviceProfile> = {}
+  for (const [name, profile] of Object.entries(value)) {
+    const known = midiDeviceProfiles.find(candidate => candidate === profile)
+    if (known) {
+      profiles[name] = known
+    }
+  }
+  return profiles
+}
+
+function readSceneParams(value: unknown): PersistedSettings['sceneParams'] | undefined {
+  if (!isRecord(value)) return undefined
+
+  const result: PersistedSettings['sceneParams'] = {}
+  for (const [sceneKey, params] of Object.entries(value)) {
+    if (!isRecord(params)) continue
+
+    const sceneResult: Record<string, number | string> = {}
+    for (const [paramKey, paramValue] of Object.entries(params)) {
+      if (typeof paramValue === 'number' || typeof paramValue === 'string') {
+        sceneResult[paramKey] = paramValue
+      }
+    }
+    result[sceneKey] = sceneResult
+  }
+
+  return result
+}
+
+// Validate stored values so a corrupted or hand-edited entry can't break the app
+export function sanitizeSettings(value: unknown): Partial<PersistedSettings> {
+  if (!isRecord(value)) return {}
+
+  const settings: Partial<PersistedSettings> = {
+    quality: readQuality(value.quality),
+    sensitivity: readNumber(value.sensitivity, 0, 1),
+    smoothing: readNumber(value.smoothing, 0, 0.95),
+    fftSize: readFFTSize(value.fftSize),
+    lowCrossover: readNumber(value.lowCrossover, 40, 500),
+    highCrossover: readNumber(value.highCrossover, 1000, 10000),
+    masterIntensity: readNumber(value.masterIntensity, 0, 2),
+    inputDeviceId: typeof value.inputDeviceId === 'string' ? value.inputDeviceId : undefined,
+    inputChannel: readInputChannel(value.inputChannel),
+    inputGain: readNumber(value.inputGain, -24, 24),
+    tempoSource: readTempoSource(value.tempoSource),
+    bpm: readNumber(value.bpm, MIN_TEMPO, MAX_TEMPO),
+    autoLockBPM: readBoolean(value.autoLockBPM),
+    autoSwitchOnDrop: readBoolean(value.autoSwitchOnDrop),
+    harmonicColor: readBoolean(value.harmonicColor),
+    quantizeMode: readQuantizeMode(value.quantizeMode),
+    transitionType: readTransitionType(value.transitionType),
+    transitionDuration: readNumber(value.transitionDuration, 0, 4),
+    midiEnabled: readBoolean(value.midiEnabled),
+    midiMappings: readMidiMappings(value.midiMappings),
+    midiOutputProfiles: readMidiOutputProfiles(value.midiOutputProfiles),
+    keymap: parseKeymap(value.keymap) ?? undefined,
+    fxFadeIn: readNumber(value.fxFadeIn, 0, 2),
+    fxFadeOut: readNumber(value.fxFadeOut, 0, 2),
+    strobeRate: readStrobeRate(value.strobeRate),
+    sceneParams: readSceneParams(value.sceneParams)
+  }
+
+  // Drop anything that failed validation so the store default is kept
+  for (const key of Object.keys(settings) as (keyof PersistedSettings)[]) {
+    if (settings[key] === undefined) {
+      delete settings[key]
+    }
+  }
+
+  return settings
+}
+
+export function migrateSettings(persistedState: unknown, version: number): PersistedSettings {
+  let state: PersistedRecord = isRecord(persistedState) ? persistedState : {}
+
+  for (let v = version + 1; v <= STORAGE_VERSION; v++) {
+    const migration = migrations[v]
+    if (migration) {
+      state = migration(state)
+    }
+  }
+
+  return state as PersistedSettings
+}
+
+export const persistOptions: PersistOptions<AppState, PersistedSettings> = {
+  name: STORAGE_KEY,
+  version: STORAGE_VERSION,
+  storage: createJSONStorage(() => localStorage),
+  partialize: (state) => ({
+    quality: state.quality,
+    sensitivity: state.sensitivity,
+    smoothing: state.smoothing,
+    fftSize: state.fftSize,
+    lowCrossover: state.lowCrossover,
+    highCrossover: state.highCrossover,
+    masterIntensity: state.masterIntensity,
+    inputDeviceId: state.inputDeviceId,
+    inputChannel: state.inputChannel,
+    inputGain: state.inputGain,
+    tempoSource: state.tempoSource,
+    bpm: state.bpm,
+    autoLockBPM: state.autoLockBPM,
+    autoSwitchOnDrop: state.autoSwitchOnDrop,
+    harmonicColor: state.harmonicColor,
+    quantizeMode: state.quantizeMode,
+    transitionType: state.transitionType,
+    transitionDuration: state.transitionDuration,
+    midiEnabled: state.midiEnabled,
+    midiMappings: state.midiMappings,
+    midiOutputProfiles: state.midiOutputProfiles,
+    keymap: state.keymap,
+    fxFadeIn: state.fxFadeIn,
+    fxFadeOut: state.fxFadeOut,
+    strobeRate: state.strobeRate,
+    sceneParams: state.sceneParams
+  }),
+  migrate: migrateSettings,
+  merge: (persistedState, currentState) => ({
+    ...currentState,
+    ...sanitizeSettings(persistedState)
+  })
+}
@@ -1,21 +1,72 @@
 import { create } from 'zustand'
-import { MicStatus } from '../scenes/types'
+import { persist } from 'zustand/middleware'
+import { InputChannel, InputSource, InputStatus, KeyMode, SongSection } from '../scenes/types'
+import { TransitionType, transitionTypes } from '../renderer/SceneTransition'
+import { QuantizeMode } from '../audio/BeatQuantizer'
+import { FFTSize } from '../audio/FrameAnalyzer'
+import { MIN_TEMPO, MAX_TEMPO } from '../audio/TempoEstimator'
+import { MidiClockState, TempoSource } from '../midi/MidiClock'
+import { MidiAccessStatus } from '../midi/MidiAccess'
+import { MidiMapping, MidiTarget, controlKey, targetKey } from '../midi/MidiMapping'
+import { MidiDeviceProfile } from '../midi/MidiFeedback'
+import { KeyAction, Keymap, bindChord, defaultKeymap } from '../keyboard/keymap'
+import { PerformanceFxState, PerformanceFxType, StrobeRate, inactivePerformanceFx } from '../renderer/PerformanceFx'
+import { persistOptions } from './persistence'
 
 export type Quality = 'low' | 'medium' | 'high'
 
-interface AppState {
+export interface AppState {
   // Scene
   currentSceneIndex: number
   setCurrentSceneIndex: (index: number) => void
   nextScene: () => void
   prevScene: () => void
+  jumpToNextScene: () => void // right away, ignoring the quantize mode
   sceneCount: number
   setSceneCount: (count: number) => void
+  autoSwitchOnDrop: boolean
+  setAutoSwitchOnDrop: (value: boolean) => void
+  harmonicColor: boolean // scene colors follow the musical key
+  setHarmonicColor: (value: boolean) => void
+
+  // Quantized switching - scene changes wait for the next grid boundary
+  quantizeMode: QuantizeMode
+  setQuantizeMode: (mode: QuantizeMode) => void
+  pendingSceneIndex: number | null
+  commitPendingScene: () => void
+  cancelPendingScene: () => void
+
+  // Transitions
+  transitionType: TransitionType
+  setTransitionType: (type: TransitionType) => void
+  cycleTransitionType: () => void
+  transitionDuration: number // seconds
+  setTransitionDuration: (value: number) => void
 
   // Playback
   isPaused: boolean
   togglePause: () => void
 
+  // Performance effects on top of the scene: on while held or latched
+  heldFx: PerformanceFxState
+  holdFx: (effect: PerformanceFxType, held: boolean) => void
+  releaseHeldFx: () => void
+  latchedFx: PerformanceFxState
+  toggleFxLatch: (effect: PerformanceFxType) => void
+  clearFx: () => void // lets go of everything, held or latched
+  fxFadeIn: number  // seconds
+  fxFadeOut: number // seconds
+  setFxFadeIn: (value: number) => void
+  setFxFadeOut: (value: number) => void
+  strobeRate: StrobeRate
+  setStrobeRate: (rate: StrobeRate) => void
+
+  // Keyboard
+  keymap: Keymap
+  bindKey: (action: KeyAction, chord: string) => void // takes the chord from any other action
+  unbindKey: (action: KeyAction, chord: string) => void
+  setKeymap: (keymap: Keymap) => void
+
   // Fullscreen
   isFullscreen: boolean
   setFullscreen: (value: boolean) => void
@@ -30,18 +81,70 @@ interface AppState {
   hideHint: () => void
 
   // Audio mode
-  micMode: boolean
+  micMode: boolean // audio-reactive mode, fed by the active input source
   setMicMode: (value: boolean) => void
-  micStatus: MicStatus
-  setMicStatus: (status: MicStatus) => void
+  inputStatus: InputStatus
+  setInputStatus: (status: InputStatus) => void
+  inputSource: InputSource
+  setInputSource: (source: InputSource) => void
+
+  // Input device
+  inputDeviceId: string // '' = system default
+  setInputDeviceId: (deviceId: string) => void
+  inputChannel: InputChannel
+  setInputChannel: (channel: InputChannel) => void
+  inputGain: number // dB
+  setInputGain: (value: number) => void
 
   // BPM
+  tempoSource: TempoSource // falls back to the manual clock while its source is silent
+  setTempoSource: (source: TempoSource) => void
+  midiClock: MidiClockState
+  setMidiClock: (state: MidiClockState) => void
   bpm: number
   setBpm: (bpm: number) => void
   autoBPM: number
-  setAutoBPM: (bpm: number) => void
+  autoBPMConfidence: number // 0-1
+  setAutoBPM: (bpm: number, confidence: number) => void
+  autoLockBPM: boolean // lock automatically once the estimate is stable
+  setAutoLockBPM: (value: boolean) => void
   isBpmLocked: boolean
   toggleBpmLock: () => void
+  setBpmLocked: (locked: boolean, bpm?: number) => void
+  lockedBPM: number
+  nudgeLockedBPM: (delta: number) => void
+  scaleLockedBPM: (factor: number) => void
+  downbeatResetAt: number // performance.now() of the last "this is the one" press
+  resetDownbeat: () => void
+
+  // Song structure
+  songSection: SongSection
+  sectionConfidence: number // 0-1
+  setSongSection: (section: SongSection, confidence: number) => void
+
+  // Musical key
+  songKey: number | null // tonic pitch class, 0 = C; null until estimated
+  keyMode: KeyMode
+  keyConfidence: number  // 0-1
+  setSongKey: (key: number | null, mode: KeyMode, confidence: number) => void
+
+  // MIDI controllers
+  midiEnabled: boolean
+  setMidiEnabled: (value: boolean) => void
+  midiStatus: MidiAccessStatus | 'off'
+  setMidiStatus: (status: MidiAccessStatus | 'off') => void
+  midiMappings: MidiMapping[]
+  setMidiMapping: (mapping: MidiMapping) => void // replaces whatever the control or target had
+  updateMidiMapping: (target: MidiTarget, changes: Partial<MidiMapping>) => void
+  removeMidiMapping: (target: MidiTarget) => void
+  midiLearn: boolean // clicking a control picks it for the next MIDI message
+  toggleMidiLearn: () => void
+  midiLearnTarget: MidiTarget | null
+  setMidiLearnTarget: (target: MidiTarget | null) => void
+  midiOutputs: string[] // names of connected outputs that get LED feedback
+  setMidiOutputs: (names: string[]) => void
+  midiOutputProfiles: Record<string, MidiDeviceProfile> // LED table chosen per output name
+  setMidiOutputProfile: (name: string, profile: MidiDeviceProfile) => void
 
   // Quality & Effects
   quality: Quality
@@ -54,6 +157,12 @@ interface AppState {
   setSensitivity: (value: number) => void
   smoothing: number
   setSmoothing: (value: number) => void
+  fftSize: FFTSize
+  setFFTSize: (size: FFTSize) => void
+  lowCrossover: number  // Hz, bass / mid split
+  highCrossover: number // Hz, mid / high split
+  setLowCrossover: (value: number) => void
+  setHighCrossover: (value: number) => void
 
   // Auto params
   autoParams: Record<string, boolean>
@@ -62,33 +171,144 @@ interface AppState {
   // Scene params
   sceneParams: Record<string, Record<string, number | string>>
   setSceneParam: (sceneKey: string, paramKey: string, value: number | string) => void
+  resetSceneParams: (sceneKey: string) => void
+
+  // Persisted settings
+  resetSettings: () => void
 }
 
-export const useStore = create<AppState>((set, get) => ({
+// Values restored by resetSettings()
+const defaultSettings = {
+  quality: 'medium' as Quality,
+  masterIntensity: 1.0,
+  sensitivity: 0.5,
+  smoothing: 0.8,
+  fftSize: 512 as FFTSize,
+  lowCrossover: 250,
+  highCrossover: 4000,
+  inputDeviceId: '',
+  inputChannel: 'mono' as InputChannel,
+  inputGain: 0,
+  tempoSource: 'audio' as TempoSource,
+  bpm: 140,
+  autoLockBPM: true,
+  autoSwitchOnDrop: false,
+  harmonicColor: false,
+  quantizeMode: 'immediate' as QuantizeMode,
+  transitionType: 'crossfade' as TransitionType,
+  transitionDuration: 1.0,
+  midiEnabled: false,
+  midiMappings: [] as MidiMapping[],
+  midiOutputProfiles: {} as Record<string, MidiDeviceProfile>,
+  keymap: defaultKeymap,
+  fxFadeIn: 0.1,
+  fxFadeOut: 0.3,
+  strobeRate: 'eighth' as StrobeRate,
+  sceneParams: {} as Record<string, Record<string, number | string>>
+}
+
+// Locked tempo: the detection range in 0.1 steps
+function clampLockedBPM(bpm: number): number {
+  return Math.round(Math.max(MIN_TEMPO, Math.min(MAX_TEMPO, bpm)) * 10) / 10
+}
+
+// Switch now, or queue the switch when a quantize mode is active
+function requestScene(state: AppState, index: number): Partial<AppState> {
+  if (state.quantizeMode === 'immediate') {
+    return { currentSceneIndex: index, pendingSceneIndex: null }
+  }
+  return { pendingSceneIndex: index === state.currentSceneIndex ? null : index }
+}
+
+export const useStore = create<AppState>()(persist((set, get) => ({
   // Scene
   currentSceneIndex: 0,
-  setCurrentSceneIndex: (index) => set({ currentSceneIndex: index }),
-  nextScene: () => set((state) => ({
-    currentSceneIndex: (state.currentSceneIndex + 1) % state.sceneCount
-  })),
-  prevScene: () => set((state) => ({
-    currentSceneIndex: (state.currentSceneIndex - 1 + state.sceneCount) % state.sceneCount
+  setCurrentSceneIndex: (index) => set((state) => requestScene(state, index)),
+  nextScene: () => set((state) => {
+    const base = state.pendingSceneIndex ?? state.currentSceneIndex
+    return requestScene(state, (base + 1) % state.sceneCount)
+  }),
+  prevScene: () => set((state) => {
+    const base = state.pendingSceneIndex ?? state.currentSceneIndex
+    return requestScene(state, (base - 1 + state.sceneCount) % state.sceneCount)
+  }),
+  // A queued scene fires now; otherwise move on to the next one
+  jumpToNextScene: () => set((state) => ({
+    currentSceneIndex: state.pendingSceneIndex ?? (state.currentSceneIndex + 1) % state.sceneCount,
+    pendingSceneIndex: null
   })),
   sceneCount: 6,
   setSceneCount: (count) => set({ sceneCount: count }),
+  autoSwitchOnDrop: defaultSettings.autoSwitchOnDrop,
+  setAutoSwitchOnDrop: (value) => set({ autoSwitchOnDrop: value }),
+  harmonicColor: defaultSettings.harmonicColor,
+  setHarmonicColor: (value) => set({ harmonicColor: value }),
+
+  // Quantized switching
+  quantizeMode: defaultSettings.quantizeMode,
+  setQuantizeMode: (mode) => set((state) => ({
+    quantizeMode: mode,
+    // Switching to immediate fires anything still waiting
+    ...(mode === 'immediate' && state.pendingSceneIndex !== null
+      ? { currentSceneIndex: state.pendingSceneIndex, pendingSceneIndex: null }
+      : {})
+  })),
+  pendingSceneIndex: null,
+  commitPendingScene: () => set((state) => (
+    state.pendingSceneIndex === null
+      ? {}
+      : { currentSceneIndex: state.pendingSceneIndex, pendingSceneIndex: null }
+  )),
+  cancelPendingScene: () => set({ pendingSceneIndex: null }),
+
+  // Transitions
+  transitionType: defaultSettings.transitionType,
+  setTransitionType: (type) => set({ transitionType: type }),
+  cycleTransitionType: () => set((state) => ({
+    transitionType: transitionTypes[(transitionTypes.indexOf(state.transitionType) + 1) % transitionTypes.length]
+  })),
+  transitionDuration: defaultSettings.transitionDuration,
+  setTransitionDuration: (value) => set({ transitionDuration: Math.max(0, Math.min(4, value)) }),
 
   // Playback
   isPaused: false,
   togglePause: () => set((state) => ({ isPaused: !state.isPaused })),
 
+  // Performance effects
+  heldFx: inactivePerformanceFx,
+  holdFx: (effect, held) => set((state) => ({
+    heldFx: { ...state.heldFx, [effect]: held }
+  })),
+  releaseHeldFx: () => set({ heldFx: inactivePerformanceFx }),
+  latchedFx: inactivePerformanceFx,
+  toggleFxLatch: (effect) => set((state) => ({
+    latchedFx: { ...state.latchedFx, [effect]: !state.latchedFx[effect] }
+  })),
+  clearFx: () => set({ heldFx: inactivePerformanceFx, latchedFx: inactivePerformanceFx }),
+  fxFadeIn: defaultSettings.fxFadeIn,
+  fxFadeOut: defaultSettings.fxFadeOut,
+  setFxFadeIn: (value) => set({ fxFadeIn: Math.max(0, Math.min(2, value)) }),
+  setFxFadeOut: (value) => set({ fxFadeOut: Math.max(0, Math.min(2, value)) }),
+  strobeRate: defaultSettings.strobeRate,
+  setStrobeRate: (rate) => set({ strobeRate: rate }),
+
+  // Keyboard
+  keymap: defaultSettings.keymap,
+  bindKey: (action, chord) => set((state) => ({ keymap: bindChord(state.keymap, action, chord) })),
+  unbindKey: (action, chord) => set((state) => ({
+    keymap: { ...state.keymap, [action]: state.keymap[action].filter(existing => existing !== chord) }
+  })),
+  setKeymap: (keymap) => set({ keymap }),
+
   // Fullscreen
   isFullscreen: false,
   setFullscreen: (value) => set({ isFullscreen: value }),
 
   // UI
   showSettings: false,
-  toggleSettings: () => set((state) => ({ showSettings: !state.showSettings })),
-  closeSettings: () => set({ showSettings: false }),
+  // MIDI Learn only makes sense with the controls on screen
+  toggleSettings: () => set((state) => ({ showSettings: !state.showSettings, midiLearn: false, midiLearnTarget: null })),
+  closeSettings: () => set({ showSettings: false, midiLearn: false, midiLearnTarget: null }),
   showEqualizer: true,
   toggleEqualizer: () => set((state) => ({ showEqualizer: !state.showEqualizer })),
   showHint: true,
@@ -97,28 +317,107 @@ export const useStore = create<AppState>((set, get) => ({
   // Audio mode
   micMode: false,
   setMicMode: (value) => set({ micMode: value }),
-  micStatus: 'off',
-  setMicStatus: (status) => set({ micStatus: status }),
+  inputStatus: 'off',
+  setInputStatus: (status) => set({ inputStatus: status }),
+  inputSource: 'mic',
+  setInputSource: (source) => set({ inputSource: source }),
+
+  // Input device
+  inputDeviceId: defaultSettings.inputDeviceId,
+  setInputDeviceId: (deviceId) => set({ inputDeviceId: deviceId }),
+  inputChannel: defaultSettings.inputChannel,
+  setInputChannel: (channel) => set({ inputChannel: channel }),
+  inputGain: defaultSettings.inputGain,
+  setInputGain: (value) => set({ inputGain: Math.max(-24, Math.min(24, value)) }),
 
   // BPM
-  bpm: 140,
-  setBpm: (bpm) => set({ bpm: Math.max(120, Math.min(190, bpm)) }),
+  tempoSource: defaultSettings.tempoSource,
+  setTempoSource: (source) => set({ tempoSource: source }),
+  midiClock: { status: 'off', bpm: 0, device: '' },
+  setMidiClock: (state) => set({ midiClock: state }),
+  bpm: defaultSettings.bpm,
+  // Same range as detection, so a detected or locked tempo can be kept by hand
+  setBpm: (bpm) => set({ bpm: Math.max(MIN_TEMPO, Math.min(MAX_TEMPO, bpm)) }),
   autoBPM: 140,
-  setAutoBPM: (bpm) => set({ autoBPM: bpm }),
+  autoBPMConfidence: 0,
+  setAutoBPM: (bpm, confidence) => set({ autoBPM: bpm, autoBPMConfidence: confidence }),
+  autoLockBPM: defaultSettings.autoLockBPM,
+  setAutoLockBPM: (value) => set({ autoLockBPM: value }),
   isBpmLocked: false,
-  toggleBpmLock: () => set((state) => ({ isBpmLocked: !state.isBpmLocked })),
+  toggleBpmLock: () => set((state) => ({
+    isBpmLocked: !state.isBpmLocked,
+    lockedBPM: state.isBpmLocked ? state.lockedBPM : clampLockedBPM(state.autoBPM)
+  })),
+  setBpmLocked: (locked, bpm) => set((state) => ({
+    isBpmLocked: locked,
+    lockedBPM: locked ? clampLockedBPM(bpm ?? state.autoBPM) : state.lockedBPM
+  })),
+  lockedBPM: 140,
+  nudgeLockedBPM: (delta) => set((state) => ({ lockedBPM: clampLockedBPM(state.lockedBPM + delta) })),
+  scaleLockedBPM: (factor) => set((state) => ({ lockedBPM: clampLockedBPM(state.lockedBPM * factor) })),
+  downbeatResetAt: 0,
+  resetDownbeat: () => set({ downbeatResetAt: performance.now() }),
+
+  // Song structure
+  songSection: 'groove',
+  sectionConfidence: 0,
+  setSongSection: (section, confidence) => set({ songSection: section, sectionConfidence: confidence }),
+
+  // Musical key
+  songKey: null,
+  keyMode: 'major',
+  keyConfidence: 0,
+  setSongKey: (key, mode, confidence) => set({ songKey: key, keyMode: mode, keyConfidence: confidence }),
+
+  // MIDI controllers
+  midiEnabled: defaultSettings.midiEnabled,
+  setMidiEnabled: (value) => set({ midiEnabled: value }),
+  midiStatus: 'off',
+  setMidiStatus: (status) => set({ midiStatus: status }),
+  midiMappings: defaultSettings.midiMappings,
+  setMidiMapping: (mapping) => set((state) => ({
+    midiMappings: [
+      ...state.midiMappings.filter(existing =>
+        targetKey(existing.target) !== targetKey(mapping.target) &&
+        controlKey(existing.control) !== controlKey(mapping.control)),
+      mapping
+    ]
+  })),
+  updateMidiMapping: (target, changes) => set((state) => ({
+    midiMappings: state.midiMappings.map(mapping =>
+      targetKey(mapping.target) === targetKey(target) ? { ...mapping, ...changes } : mapping)
+  })),
+  removeMidiMapping: (target) => set((state) => ({
+    midiMappings: state.midiMappings.filter(mapping => targetKey(mapping.target) !== targetKey(target))
+  })),
+  midiLearn: false,
+  toggleMidiLearn: () => set((state) => ({ midiLearn: !state.midiLearn, midiLearnTarget: null })),
+  midiLearnTarget: null,
+  setMidiLearnTarget: (target) => set({ midiLearnTarget: target }),
+  midiOutputs: [],
+  setMidiOutputs: (names) => set({ midiOutputs: names }),
+  midiOutputProfiles: defaultSettings.midiOutputProfiles,
+  setMidiOutputProfile: (name, profile) => set((state) => ({
+    midiOutputProfiles: { ...state.midiOutputProfiles, [name]: profile }
+  })),
 
   // Quality & Effects
-  quality: 'medium',
+  quality: defaultSettings.quality,
   setQuality: (quality) => set({ quality }),
-  masterIntensity: 1.0,
+  masterIntensity: defaultSettings.masterIntensity,
   setMasterIntensity: (value) => set({ masterIntensity: Math.max(0, Math.min(2, value)) }),
 
   // Audio settings
-  sensitivity: 0.5,
+  sensitivity: defaultSettings.sensitivity,
   setSensitivity: (value) => set({ sensitivity: value }),
-  smoothing: 0.8,
+  smoothing: defaultSettings.smoothing,
   setSmoothing: (value) => set({ smoothing: value }),
+  fftSize: defaultSettings.fftSize,
+  setFFTSize: (size) => set({ fftSize: size }),
+  lowCrossover: defaultSettings.lowCrossover,
+  highCrossover: defaultSettings.highCrossover,
+  setLowCrossover: (value) => set({ lowCrossover: Math.max(40, Math.min(500, value)) }),
+  setHighCrossover: (value) => set({ highCrossover: Math.max(1000, Math.min(10000, value)) }),
 
   // Auto params
   autoParams: {
@@ -132,7 +431,7 @@ export const useStore = create<AppState>((set, get) => ({
   })),
 
   // Scene params
-  sceneParams: {},
+  sceneParams: defaultSettings.sceneParams,
   setSceneParam: (sceneKey, paramKey, value) => set((state) => ({
     sceneParams: {
       ...state.sceneParams,
@@ -141,5 +440,12 @@ export const useStore = create<AppState>((set, get) => ({
         [paramKey]: value
       }
     }
-  }))
-}))
+  })),
+  resetSceneParams: (sceneKey) => set((state) => {
+    const { [sceneKey]: _removed, ...rest } = state.sceneParams
+    return { sceneParams: rest }
+  }),
+
+  // Persisted settings
+  resetSettings: () => set({ ...defaultSettings })
+}), persistOptions))
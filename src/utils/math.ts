@@ -38,6 +38,11 @@ export function easeOutElastic(t: number): number {
     : Math.pow(2, -10 * t) * Math.sin((t * 10 - 0.75) * c4) + 1
 }
 
+// Convert a per-update smoothing factor tuned at one update rate to another rate
+export function rescaleSmoothing(factor: number, fromRate: number, toRate: number): number {
+  return Math.pow(factor, fromRate / toRate)
+}
+
 export function mod(n: number, m: number): number {
   return ((n % m) + m) % m
 }
@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
@@ -6,5 +7,10 @@ export default defineConfig({
   build: {
     target: 'esnext',
     minify: 'esbuild'
+  },
+  test: {
+    environment: 'node',
+    // Analysis tests render and process tens of seconds of audio each
+    testTimeout: 30000
   }
 })